@@ -3,89 +3,65 @@
  * Provides sentence highlighting with customizable colors and styles.
  */
 
-import { Plugin, Editor, MarkdownView, setIcon, setTooltip } from "obsidian";
-import { EditorView, Decoration } from "@codemirror/view";
 import {
-	StateField,
-	StateEffect,
-	RangeSet,
-	RangeSetBuilder,
-} from "@codemirror/state";
+	Plugin,
+	Editor,
+	MarkdownView,
+	Notice,
+	TFile,
+	TFolder,
+	debounce,
+	editorInfoField,
+	getAllTags,
+	setIcon,
+	setTooltip,
+} from "obsidian";
+import { EditorView } from "@codemirror/view";
 
 // Import modular components
-import { MusicalTextSettings, SentenceMarkingStyle } from "./src/types";
-import { getContrastingTextColor } from "./src/color-utils";
-import { computeDecorations } from "./src/sentence-detection";
+import { MusicalTextSettings } from "./src/types";
+import {
+	createSentenceHighlighter,
+	refreshFocusEffect,
+	refreshHighlightEffect,
+} from "./src/highlight-extension";
+import { FOCUS_SCOPE_NAMES, getNextFocusScope } from "./src/focus-mode";
+import { getNoteHighlighting, getNoteSettings } from "./src/note-settings";
+import {
+	matchesHighlightRules,
+	parseHighlightRules,
+} from "./src/highlight-rules";
+import {
+	READING_HIGHLIGHT_CLASS,
+	getRenderKey,
+	highlightRenderedSentences,
+} from "./src/reading-view";
 import {
 	DEFAULT_SETTINGS,
 	SentenceHighlighterSettingTab,
+	migrateSettings,
+	normalizeBands,
 } from "./src/settings";
-
-/**
- * CodeMirror state effect for updating sentence highlighting decorations.
- * Used to dispatch decoration updates to the editor view.
- */
-const sentenceHighlightEffect = StateEffect.define<RangeSet<Decoration>>();
-
-/**
- * CodeMirror state field that maintains the current set of sentence decorations.
- * Handles creation, updates, and provides decorations to the editor view.
- */
-const sentenceHighlighterField = StateField.define<RangeSet<Decoration>>({
-	create: () => RangeSet.empty,
-	update(decorations, tr) {
-		// If our effect is dispatched, use its new decorations.
-		const effects = tr.effects.filter((e) => e.is(sentenceHighlightEffect));
-		if (effects.length) {
-			return effects[0].value;
-		}
-		return decorations;
-	},
-	provide: (field) => EditorView.decorations.from(field),
-});
-
-/**
- * Creates a CodeMirror extension that updates sentence highlighting in real-time.
- * Responds to document changes and viewport updates to maintain accurate highlighting.
- * @param plugin Reference to the plugin instance for accessing settings and state
- * @returns An EditorView.updateListener extension
- */
-function liveHighlightExtension(plugin: MusicalTextPlugin) {
-	return EditorView.updateListener.of((update) => {
-		// Look up the current view's enabled state.
-		const enabled = plugin.editorHighlightingMap.get(update.view);
-		if (!enabled) return;
-
-		// Update decorations if the document changed OR the viewport changed
-		if (update.docChanged || update.viewportChanged) {
-			const builder = new RangeSetBuilder<Decoration>();
-
-			// Process only visible ranges
-			for (const range of update.view.visibleRanges) {
-				const visibleText = update.state.doc.sliceString(
-					range.from,
-					range.to,
-				);
-				const decorations = computeDecorations(
-					visibleText,
-					plugin.settings,
-					range.from,
-				);
-
-				const iter = decorations.iter();
-				while (iter.value) {
-					builder.add(iter.from, iter.to, iter.value);
-					iter.next();
-				}
-			}
-
-			const fullDecorations = builder.finish();
-			update.view.dispatch({
-				effects: sentenceHighlightEffect.of(fullDecorations),
-			});
-		}
-	});
-}
+import { generateSentenceStyles, getStyleKey } from "./src/sentence-styles";
+import { getThemeSettings, isDarkTheme } from "./src/theme-palettes";
+import { createRhythmMinimap } from "./src/rhythm-minimap";
+import { findDocumentRuns } from "./src/monotony";
+import { MonotonyReportModal } from "./src/monotony-report";
+import { createSentenceTooltip } from "./src/sentence-tooltip";
+import { RhythmStatsView, VIEW_TYPE_RHYTHM_STATS } from "./src/stats-view";
+import { createStressPatternView } from "./src/stress-view";
+import { exportRhythmHtml } from "./src/html-export";
+import { ReportFolderModal, createRhythmReport } from "./src/rhythm-report";
+import { StatusReadout, createStatusReadout } from "./src/status-readout";
+
+/** Class on editors whose note overrides the sentence styles */
+const NOTE_STYLE_CLASS = "musical-text-note-style";
+
+/** Id of the generated stylesheet */
+const STYLE_ELEMENT_ID = "sentence-highlighter-styles";
+
+/** Pause after settings change before reading views are re-rendered (ms) */
+const RERENDER_DELAY = 500;
 
 /**
  * Main plugin class for the Musical Text feature.
@@ -95,13 +71,42 @@ export default class MusicalTextPlugin extends Plugin {
 	settings: MusicalTextSettings;
 	// This WeakMap holds the highlighting state (true/false) for each CodeMirror view.
 	editorHighlightingMap: WeakMap<EditorView, boolean>;
+	// Reading view highlighting is toggled separately for each Markdown view.
+	readingHighlightingMap: WeakMap<MarkdownView, boolean>;
+	// Whether the dark theme was active when styles were last generated.
+	private darkTheme = isDarkTheme();
+	// The note each CodeMirror view's highlighting state was restored for.
+	private editorFileMap = new WeakMap<EditorView, string>();
+	// Whether each CodeMirror view shows the stress pattern of its lines.
+	stressPatternMap: WeakMap<EditorView, boolean>;
+	// Every CodeMirror view the highlighter is attached to: Markdown views,
+	// Canvas cards, hover previews and embedded editors alike.
+	private editorViews = new Set<EditorView>();
+
+	// Settings the reading views were last rendered with, by getRenderKey.
+	private renderKey = "";
+	private requestReadingRerender = debounce(
+		() => this.rerenderReadingViews(),
+		RERENDER_DELAY,
+		true,
+	);
+
+	// Sentence styles of notes that override them, keyed by getStyleKey.
+	private noteStyleScopes = new Map<
+		string,
+		{ className: string; settings: MusicalTextSettings }
+	>();
 
 	statusBarItem: HTMLElement | null = null;
 	ribbonIconEl: HTMLElement | null = null;
+	statusReadout: StatusReadout | null = null;
 
 	async onload() {
 		await this.loadSettings();
+		this.renderKey = getRenderKey(this.getThemedSettings());
 		this.editorHighlightingMap = new WeakMap();
+		this.readingHighlightingMap = new WeakMap();
+		this.stressPatternMap = new WeakMap();
 
 		// Conditionally add a status bar item that reflects the state of the active editor.
 		if (this.settings.showStatusBarItem ?? true) {
@@ -109,158 +114,579 @@ export default class MusicalTextPlugin extends Plugin {
 			this.updateStatusBar(this.statusBarItem);
 			this.statusBarItem.addClass("sentence-highlighter-status");
 			this.statusBarItem.addEventListener("click", () => {
-				this.toggleHighlighting(this.statusBarItem as HTMLElement);
+				this.toggleHighlighting();
 			});
 		}
 
+		// Describe the sentence at the cursor, whether or not it is highlighted.
+		this.statusReadout = new StatusReadout(this, this.addStatusBarItem());
+
 		// Conditionally add a ribbon icon for mobile users to toggle sentence highlighting
 		if (this.settings.showRibbonIcon ?? true) {
 			this.ribbonIconEl = this.addRibbonIcon(
 				"list-music",
 				"Toggle sentence highlighting",
-				() => {
-					if (this.statusBarItem) {
-						this.toggleHighlighting(this.statusBarItem);
-					} else if (this.ribbonIconEl) {
-						this.toggleHighlighting(this.ribbonIconEl);
-					}
-				},
+				() => this.toggleHighlighting(),
 			);
 		}
 
-		// Register a command to toggle highlighting in the active editor.
-		const statusElForCommand = this.statusBarItem || this.ribbonIconEl;
+		// Register a command to toggle highlighting in the active editor,
+		// which may also be a Canvas card or an embedded note.
 		this.addCommand({
 			id: "toggle-sentence-highlighting",
 			name: "Toggle musical text highlighting",
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				if (statusElForCommand) {
-					this.toggleHighlighting(statusElForCommand);
+			editorCallback: () => {
+				this.toggleHighlighting();
+			},
+		});
+
+		// Turn highlighting on in every open editor, or off if all have it.
+		this.addCommand({
+			id: "toggle-all-editors-highlighting",
+			name: "Toggle musical text highlighting in all open editors",
+			checkCallback: (checking: boolean) => {
+				if (this.editorViews.size === 0) return false;
+				if (!checking) {
+					this.toggleAllEditorsHighlighting();
 				}
+				return true;
 			},
 		});
 
-		// Register our CodeMirror extensions for all editors.
-		// This attaches the decoration field and live update listener.
-		this.registerEditorExtension([
-			sentenceHighlighterField,
-			liveHighlightExtension(this),
-		]);
+		// Register a command to toggle highlighting in the active reading view.
+		this.addCommand({
+			id: "toggle-reading-view-highlighting",
+			name: "Toggle musical text highlighting in reading view",
+			checkCallback: (checking: boolean) => {
+				const view =
+					this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view || view.getMode() !== "preview") return false;
+				if (!checking) {
+					this.toggleReadingHighlighting(view);
+					if (this.statusBarItem) {
+						this.updateStatusBar(this.statusBarItem);
+					}
+				}
+				return true;
+			},
+		});
+
+		// Register the rhythm statistics side panel and a command to open it.
+		this.registerView(
+			VIEW_TYPE_RHYTHM_STATS,
+			(leaf) => new RhythmStatsView(leaf, this),
+		);
+		this.addCommand({
+			id: "open-rhythm-statistics",
+			name: "Open rhythm statistics",
+			callback: () => this.activateStatsView(),
+		});
+
+		// List the monotonous runs of the active note.
+		this.addCommand({
+			id: "report-monotonous-runs",
+			name: "Report monotonous runs",
+			editorCallback: (editor: Editor) => {
+				const cm = this.getEditorView(editor);
+				if (!cm) return;
+				const settings = this.getEditorSettings(cm);
+				const runs = findDocumentRuns(cm.state, settings);
+				if (runs.length === 0) {
+					new Notice("No monotonous runs found");
+					return;
+				}
+				new MonotonyReportModal(this.app, cm, runs, settings).open();
+			},
+		});
+
+		// Switch between marking the whole note and only the text around
+		// the cursor.
+		this.addCommand({
+			id: "cycle-focus-scope",
+			name: "Cycle focus scope",
+			callback: () => this.cycleFocusScope(1),
+		});
+		this.addCommand({
+			id: "cycle-focus-scope-backwards",
+			name: "Cycle focus scope backwards",
+			callback: () => this.cycleFocusScope(-1),
+		});
+
+		// Compare the rhythm of every note in a folder or the whole vault.
+		this.addCommand({
+			id: "create-rhythm-report",
+			name: "Create rhythm report for a folder",
+			callback: () => {
+				new ReportFolderModal(this.app, (folder) =>
+					createRhythmReport(this, folder),
+				).open();
+			},
+		});
+
+		// Show approximate stressed and unstressed syllables per line.
+		this.addCommand({
+			id: "toggle-stress-pattern",
+			name: "Toggle stress pattern",
+			editorCallback: (editor: Editor) => {
+				const cm = this.getEditorView(editor);
+				if (!cm) return;
+				this.stressPatternMap.set(cm, !this.stressPatternMap.get(cm));
+				cm.dispatch({ effects: refreshHighlightEffect.of(null) });
+			},
+		});
+
+		// Save the note as HTML with its sentences marked, for readers
+		// without Obsidian.
+		this.addCommand({
+			id: "export-rhythm-html",
+			name: "Export note as rhythm-annotated HTML",
+			editorCallback: async (editor: Editor, ctx) => {
+				const cm = this.getEditorView(editor);
+				if (!cm || !ctx.file) return;
+				try {
+					const path = await exportRhythmHtml(
+						this.app,
+						ctx.file,
+						cm.state,
+						this.getEditorSettings(cm),
+					);
+					new Notice(`Exported to ${path}`);
+				} catch (error) {
+					new Notice(
+						`Could not export the note: ${
+							error instanceof Error ? error.message : error
+						}`,
+					);
+				}
+			},
+		});
+
+		// Wrap sentences in rendered Markdown (reading view and PDF export).
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			highlightRenderedSentences(
+				el,
+				getNoteSettings(this.getThemedSettings(), ctx.frontmatter),
+			);
+		});
+
+		// Register our CodeMirror extension for all editors.
+		// It keeps decorations in sync with edits, scrolling and toggles.
+		this.registerEditorExtension(createSentenceHighlighter(this));
+		this.registerEditorExtension(createRhythmMinimap(this));
+		this.registerEditorExtension(createSentenceTooltip(this));
+		this.registerEditorExtension(createStressPatternView(this));
+		this.registerEditorExtension(createStatusReadout(this));
 
 		this.registerStyles();
 		this.addSettingTab(new SentenceHighlighterSettingTab(this.app, this));
 
-		// When switching views, update the status bar and refresh highlighting for the active editor.
+		// Give newly opened reading views their default highlighting state,
+		// and editors the state of the note they show.
 		this.registerEvent(
-			this.app.workspace.on("active-leaf-change", () => {
-				const activeView =
-					this.app.workspace.getActiveViewOfType(MarkdownView);
+			this.app.workspace.on("layout-change", () => {
+				this.initializeReadingViews();
+				this.syncEditorHighlighting();
+				this.applyReadingNoteStyles();
 				if (this.statusBarItem) {
 					this.updateStatusBar(this.statusBarItem);
 				}
-				if (activeView) {
-					const cm: EditorView = (activeView.editor as any).cm;
-					const enabled = this.editorHighlightingMap.get(cm) || false;
-					if (enabled) {
-						this.refreshHighlighting(activeView.editor);
-					} else {
-						// Ensure that if highlighting is disabled, we clear any decorations.
-						cm.dispatch({
-							effects: sentenceHighlightEffect.of(RangeSet.empty),
-						});
+				this.updateStatusReadout();
+			}),
+		);
+		this.app.workspace.onLayoutReady(() => {
+			this.initializeReadingViews();
+			this.syncEditorHighlighting();
+			this.applyReadingNoteStyles();
+		});
+
+		// Re-analyze open editors when a note's frontmatter (e.g. `lang`)
+		// changes, and follow its `highlighting` unless the user chose a
+		// state for the note.
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				const remembered = this.settings.fileHighlighting[file.path];
+				for (const cm of this.editorViews) {
+					if (this.getEditorFile(cm) !== file) continue;
+					const current = this.editorHighlightingMap.get(cm) || false;
+					const enabled =
+						remembered === undefined
+							? this.getInitialHighlighting(file)
+							: current;
+					if (enabled !== current) {
+						this.applyHighlightingToEditor(cm, enabled);
+					} else if (enabled) {
+						this.refreshHighlighting(cm);
 					}
 				}
+				this.applyReadingNoteStyles();
+				if (this.statusBarItem) {
+					this.updateStatusBar(this.statusBarItem);
+				}
 			}),
 		);
 
-		// Initialize the active editor's highlighting state to the default.
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (activeView) {
-			const cm: EditorView = (activeView.editor as any).cm;
+		// Restore the highlighting state of a note opened in an existing pane.
+		this.registerEvent(
+			this.app.workspace.on("file-open", () => {
+				this.syncEditorHighlighting();
+				this.applyReadingNoteStyles();
+				if (this.statusBarItem) {
+					this.updateStatusBar(this.statusBarItem);
+				}
+				this.updateStatusReadout();
+			}),
+		);
+
+		// Keep remembered highlighting states attached to their notes.
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.moveFileHighlighting(oldPath, file.path);
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				this.moveFileHighlighting(file.path, null);
+			}),
+		);
+
+		// Regenerate styles with the other palette when the base theme changes.
+		this.registerEvent(
+			this.app.workspace.on("css-change", () => {
+				if (isDarkTheme() === this.darkTheme) return;
+				this.darkTheme = isDarkTheme();
+				if (this.settings.themePalettes) {
+					this.refreshAllActiveHighlighting();
+				}
+			}),
+		);
+
+		// When switching views, update the status bar. Each editor keeps its
+		// own decorations, so nothing needs to be recomputed.
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", () => {
+				if (this.statusBarItem) {
+					this.updateStatusBar(this.statusBarItem);
+				}
+				this.updateStatusReadout();
+			}),
+		);
+	}
+
+	/** Gets the settings for the note shown in an editor, including frontmatter overrides */
+	getEditorSettings(cm: EditorView): MusicalTextSettings {
+		const file = cm.state.field(editorInfoField, false)?.file;
+		const frontmatter = file
+			? this.app.metadataCache.getFileCache(file)?.frontmatter
+			: undefined;
+		return getNoteSettings(this.getThemedSettings(), frontmatter);
+	}
+
+	/** Gets the global settings with the current theme's palette applied */
+	getThemedSettings(): MusicalTextSettings {
+		return getThemeSettings(this.settings, this.darkTheme);
+	}
+
+	/**
+	 * Gets the CodeMirror view of an editor, or of the active editor, which
+	 * may be a Markdown view, a Canvas card or an embedded note
+	 */
+	getEditorView(editor?: Editor): EditorView | null {
+		const targetEditor = editor ?? this.app.workspace.activeEditor?.editor;
+		if (!targetEditor) return null;
+		for (const cm of this.editorViews) {
+			const info = cm.state.field(editorInfoField, false);
+			if (info?.editor === targetEditor) return cm;
+		}
+		return null;
+	}
+
+	/**
+	 * Starts tracking an editor the highlighter was attached to, giving it
+	 * the highlighting state of its note before its first analysis
+	 */
+	trackEditor(cm: EditorView) {
+		this.editorViews.add(cm);
+		const file = this.getEditorFile(cm);
+		if (file && !this.editorFileMap.has(cm)) {
+			this.editorFileMap.set(cm, file.path);
 			this.editorHighlightingMap.set(
 				cm,
-				this.settings.defaultHighlightingEnabled,
+				this.getInitialHighlighting(file),
 			);
-			if (this.settings.defaultHighlightingEnabled) {
-				this.refreshHighlighting(activeView.editor);
-			}
 		}
 	}
 
-	/** Gets CodeMirror EditorView from Editor or active view */
-	private getEditorView(editor?: Editor): EditorView | null {
-		const targetEditor =
-			editor ||
-			this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
-		return targetEditor ? (targetEditor as any).cm : null;
+	/** Stops tracking an editor that was destroyed */
+	untrackEditor(cm: EditorView) {
+		this.editorViews.delete(cm);
 	}
 
-	/** Applies or clears highlighting for the given editor */
-	private applyHighlightingToEditor(editor: Editor, enabled: boolean): void {
-		const cm = this.getEditorView(editor);
-		if (!cm) return;
+	/** The note an editor shows, if any */
+	private getEditorFile(cm: EditorView): TFile | null {
+		return cm.state.field(editorInfoField, false)?.file ?? null;
+	}
 
-		if (enabled) {
-			this.refreshHighlighting(editor);
-		} else {
-			cm.dispatch({
-				effects: sentenceHighlightEffect.of(RangeSet.empty),
+	/** Opens the rhythm statistics panel in the right sidebar, or reveals it */
+	async activateStatsView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_RHYTHM_STATS)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({
+				type: VIEW_TYPE_RHYTHM_STATS,
+				active: true,
 			});
 		}
+		workspace.revealLeaf(leaf);
 	}
 
-	/** Toggles highlighting for the active editor */
-	private async toggleHighlighting(statusBarItem: HTMLElement) {
-		const editor =
-			this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
-		if (!editor) return;
+	/**
+	 * Gives every editor the highlighting state of the note it shows, once
+	 * per note. Editors keep their state while they show the same note.
+	 */
+	private syncEditorHighlighting() {
+		for (const cm of this.editorViews) {
+			const file = this.getEditorFile(cm);
+			if (!file || this.editorFileMap.get(cm) === file.path) continue;
+			this.editorFileMap.set(cm, file.path);
+			const enabled = this.getInitialHighlighting(file);
+			if (enabled !== (this.editorHighlightingMap.get(cm) || false)) {
+				this.applyHighlightingToEditor(cm, enabled);
+			}
+		}
+	}
 
-		const cm = this.getEditorView(editor);
-		if (!cm) return;
+	/**
+	 * Whether a note opens with highlighting on. The state last chosen for the
+	 * note wins, then its frontmatter, then the auto-enable rules and finally
+	 * the default.
+	 */
+	private getInitialHighlighting(file: TFile): boolean {
+		const remembered = this.settings.fileHighlighting[file.path];
+		if (remembered !== undefined) return remembered;
+
+		const cache = this.app.metadataCache.getFileCache(file);
+		const fromNote = getNoteHighlighting(cache?.frontmatter);
+		if (fromNote !== undefined) return fromNote;
+
+		const rules = parseHighlightRules(
+			this.settings.autoHighlightRules,
+			(path) =>
+				this.app.vault.getAbstractFileByPath(path) instanceof TFolder,
+		);
+		if (
+			matchesHighlightRules(
+				rules,
+				file.path,
+				cache ? getAllTags(cache) ?? [] : [],
+			)
+		) {
+			return true;
+		}
+		return this.settings.defaultHighlightingEnabled;
+	}
 
-		const currentState = this.editorHighlightingMap.get(cm) || false;
-		const newState = !currentState;
+	/** Remembers the highlighting state chosen for notes */
+	private async rememberHighlighting(files: TFile[], enabled: boolean) {
+		for (const file of files) {
+			this.settings.fileHighlighting[file.path] = enabled;
+		}
+		await this.saveData(this.settings);
+	}
 
-		this.editorHighlightingMap.set(cm, newState);
-		this.updateStatusBar(statusBarItem);
-		this.applyHighlightingToEditor(editor, newState);
+	/**
+	 * Moves remembered states after a note or folder is renamed, or forgets
+	 * them when `newPath` is null
+	 */
+	private async moveFileHighlighting(
+		oldPath: string,
+		newPath: string | null,
+	) {
+		const isMoved = (path: string) =>
+			path === oldPath || path.startsWith(`${oldPath}/`);
+
+		// Editors showing a renamed note keep their state under the new path.
+		if (newPath !== null) {
+			for (const cm of this.editorViews) {
+				const path = this.editorFileMap.get(cm);
+				const file = this.getEditorFile(cm);
+				if (path && isMoved(path) && file) {
+					this.editorFileMap.set(cm, file.path);
+				}
+			}
+		}
+
+		const states = this.settings.fileHighlighting;
+		const moved = Object.keys(states).filter(isMoved);
+		if (moved.length === 0) return;
+		for (const path of moved) {
+			if (newPath !== null) {
+				states[newPath + path.slice(oldPath.length)] = states[path];
+			}
+			delete states[path];
+		}
+		await this.saveData(this.settings);
 	}
 
-	/** Recomputes decorations for visible ranges */
-	private refreshHighlighting(editor: Editor) {
-		const cm = this.getEditorView(editor);
-		if (!cm) return;
+	/** Applies or clears highlighting for the given editor */
+	private applyHighlightingToEditor(cm: EditorView, enabled: boolean): void {
+		// The highlighter reads the enabled state from editorHighlightingMap.
+		this.editorHighlightingMap.set(cm, enabled);
+		cm.dispatch({ effects: refreshHighlightEffect.of(null) });
+	}
 
-		const builder = new RangeSetBuilder<Decoration>();
-		// Only process visible ranges
-		for (const range of cm.visibleRanges) {
-			const visibleText = cm.state.doc.sliceString(range.from, range.to);
-			const decorations = computeDecorations(
-				visibleText,
-				this.settings,
-				range.from,
+	/**
+	 * Gives every reading view the style scope of the note it shows, so
+	 * that its frontmatter's marking style and colors apply there too
+	 */
+	private applyReadingNoteStyles() {
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (!(leaf.view instanceof MarkdownView)) return;
+			const file = leaf.view.file;
+			const settings = getNoteSettings(
+				this.getThemedSettings(),
+				file
+					? this.app.metadataCache.getFileCache(file)?.frontmatter
+					: undefined,
+			);
+			this.setNoteStyleScope(
+				leaf.view.previewMode.containerEl,
+				this.getNoteStyleScope(settings),
 			);
-			// Merge decorations from this visible range into our builder.
-			const iter = decorations.iter();
-			while (iter.value) {
-				builder.add(iter.from, iter.to, iter.value);
-				iter.next();
+		});
+	}
+
+	/** Applies the default reading view state to views seen for the first time */
+	private initializeReadingViews() {
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (
+				leaf.view instanceof MarkdownView &&
+				!this.readingHighlightingMap.has(leaf.view)
+			) {
+				this.setReadingHighlighting(
+					leaf.view,
+					this.settings.defaultReadingHighlightingEnabled,
+				);
 			}
+		});
+	}
+
+	/** Shows or hides the sentence spans rendered in a reading view */
+	private setReadingHighlighting(view: MarkdownView, enabled: boolean) {
+		this.readingHighlightingMap.set(view, enabled);
+		view.previewMode.containerEl.toggleClass(
+			READING_HIGHLIGHT_CLASS,
+			enabled,
+		);
+	}
+
+	/** Toggles highlighting for a reading view */
+	private toggleReadingHighlighting(view: MarkdownView) {
+		const currentState = this.readingHighlightingMap.get(view) || false;
+		this.setReadingHighlighting(view, !currentState);
+	}
+
+	/** Toggles highlighting for the active editor or reading view */
+	private async toggleHighlighting() {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (view?.getMode() === "preview") {
+			this.toggleReadingHighlighting(view);
+			if (this.statusBarItem) this.updateStatusBar(this.statusBarItem);
+			return;
+		}
+
+		const cm = this.getEditorView();
+		if (!cm) return;
+
+		const newState = !(this.editorHighlightingMap.get(cm) || false);
+		this.applyHighlightingToEditor(cm, newState);
+		if (this.statusBarItem) this.updateStatusBar(this.statusBarItem);
+		const file = this.getEditorFile(cm);
+		if (file) {
+			await this.rememberHighlighting([file], newState);
+		}
+	}
+
+	/**
+	 * Turns highlighting on in every open editor, or off when all of them
+	 * already have it, and remembers the state for each note shown
+	 */
+	private async toggleAllEditorsHighlighting() {
+		const editors = Array.from(this.editorViews);
+		const newState = editors.some(
+			(cm) => !this.editorHighlightingMap.get(cm),
+		);
+		const files = new Set<TFile>();
+		for (const cm of editors) {
+			this.applyHighlightingToEditor(cm, newState);
+			const file = this.getEditorFile(cm);
+			if (file) files.add(file);
 		}
-		const fullDecorations = builder.finish();
-		cm.dispatch({ effects: sentenceHighlightEffect.of(fullDecorations) });
+		if (this.statusBarItem) this.updateStatusBar(this.statusBarItem);
+		new Notice(
+			`Highlighting turned ${newState ? "on" : "off"} in ${
+				editors.length
+			} ${editors.length === 1 ? "editor" : "editors"}`,
+		);
+		await this.rememberHighlighting(Array.from(files), newState);
+	}
+
+	/**
+	 * Moves the focus scope `step` places through the cycle and re-applies
+	 * it to every editor without re-analyzing
+	 */
+	private async cycleFocusScope(step: number) {
+		this.settings.focusScope = getNextFocusScope(
+			this.settings.focusScope,
+			step,
+		);
+		for (const cm of this.editorViews) {
+			cm.dispatch({ effects: refreshFocusEffect.of(null) });
+		}
+		new Notice(`Focus: ${FOCUS_SCOPE_NAMES[this.settings.focusScope]}`);
+		await this.saveData(this.settings);
+	}
+
+	/** Discards cached analysis and recomputes decorations */
+	private refreshHighlighting(cm: EditorView) {
+		cm.dispatch({ effects: refreshHighlightEffect.of(null) });
 	}
 
-	/** Refreshes highlighting in all editors with highlighting enabled */
+	/** Refreshes highlighting in all editors and re-renders reading views */
 	private refreshAllActiveHighlighting() {
+		// Refreshed editors register their note styles again.
+		this.noteStyleScopes.clear();
 		this.registerStyles();
+		this.applyReadingNoteStyles();
+		this.statusReadout?.refresh();
+		for (const cm of this.editorViews) {
+			if (this.editorHighlightingMap.get(cm)) {
+				this.refreshHighlighting(cm);
+			}
+		}
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (leaf.view instanceof RhythmStatsView) {
+				leaf.view.refresh();
+			}
+		});
+
+		// Sentence classes are baked into rendered HTML, so thresholds only
+		// take effect in reading view after a re-render. Colors and marking
+		// styles come from the stylesheet and need none.
+		const renderKey = getRenderKey(this.getThemedSettings());
+		if (renderKey !== this.renderKey) {
+			this.renderKey = renderKey;
+			this.requestReadingRerender();
+		}
+	}
+
+	/** Re-renders every reading view with the current settings */
+	private rerenderReadingViews() {
 		this.app.workspace.iterateAllLeaves((leaf) => {
 			if (leaf.view instanceof MarkdownView) {
-				const editor = leaf.view.editor;
-				const cm = this.getEditorView(editor);
-				if (cm && this.editorHighlightingMap.get(cm)) {
-					this.refreshHighlighting(editor);
-				}
+				leaf.view.previewMode.rerender(true);
 			}
 		});
 	}
@@ -269,10 +695,14 @@ export default class MusicalTextPlugin extends Plugin {
 		statusBarItem.empty();
 		setIcon(statusBarItem, "list-music");
 
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
 		const cm = this.getEditorView();
-		const enabled = cm
-			? this.editorHighlightingMap.get(cm) || false
-			: false;
+		let enabled = false;
+		if (view?.getMode() === "preview") {
+			enabled = this.readingHighlightingMap.get(view) || false;
+		} else if (cm) {
+			enabled = this.editorHighlightingMap.get(cm) || false;
+		}
 
 		// Use Obsidian's API for tooltip positioning instead of native title
 		setTooltip(statusBarItem, "Toggle sentence highlighting");
@@ -280,21 +710,44 @@ export default class MusicalTextPlugin extends Plugin {
 		statusBarItem.toggleClass("is-active", enabled);
 	}
 
+	/** Points the readout at the active editor, or hides it in reading view */
+	private updateStatusReadout() {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		this.statusReadout?.update(
+			view?.getMode() === "preview" ? null : this.getEditorView(),
+		);
+	}
+
 	onunload() {
-		const cm = this.getEditorView();
-		if (cm) {
-			cm.dispatch({
-				effects: sentenceHighlightEffect.of(RangeSet.empty),
-			});
+		this.requestReadingRerender.cancel();
+		this.statusReadout?.destroy();
+		// Clear every editor, not just the active one. Destroyed highlighters
+		// untrack their editors, so iterate over a copy.
+		for (const cm of Array.from(this.editorViews)) {
+			this.editorHighlightingMap.set(cm, false);
+			this.stressPatternMap.set(cm, false);
+			cm.dispatch({ effects: refreshHighlightEffect.of(null) });
+			this.clearNoteStyles(cm.dom);
 		}
+		this.editorViews.clear();
+		document.getElementById(STYLE_ELEMENT_ID)?.remove();
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (leaf.view instanceof MarkdownView) {
+				leaf.view.previewMode.containerEl.removeClass(
+					READING_HIGHLIGHT_CLASS,
+				);
+				this.clearNoteStyles(leaf.view.previewMode.containerEl);
+			}
+		});
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData(),
-		);
+		const data = await this.loadData();
+		migrateSettings(data);
+		// Copy the defaults deeply, so that nested settings such as
+		// remembered notes never write into DEFAULT_SETTINGS.
+		this.settings = Object.assign(structuredClone(DEFAULT_SETTINGS), data);
+		this.settings.bands = normalizeBands(this.settings.bands);
 		// Apply default true if the new settings field is not set
 		if (this.settings.showStatusBarItem === undefined) {
 			this.settings.showStatusBarItem = true;
@@ -309,129 +762,97 @@ export default class MusicalTextPlugin extends Plugin {
 		this.refreshAllActiveHighlighting();
 	}
 
+	/**
+	 * Scopes an editor's sentence styles to its note when the note's
+	 * frontmatter changes the marking style or colors. Notes styled alike
+	 * share one scope class.
+	 */
+	applyNoteStyles(cm: EditorView, settings: MusicalTextSettings) {
+		this.setNoteStyleScope(cm.dom, this.getNoteStyleScope(settings));
+	}
+
+	/**
+	 * The scope class of a note's sentence styles, registering it when
+	 * first needed
+	 * @returns The class, or undefined if the note is styled like the rest
+	 */
+	private getNoteStyleScope(
+		settings: MusicalTextSettings,
+	): string | undefined {
+		const key = getStyleKey(settings);
+		if (key === getStyleKey(this.getThemedSettings())) return undefined;
+		let scope = this.noteStyleScopes.get(key)?.className;
+		if (!scope) {
+			scope = `${NOTE_STYLE_CLASS}-${this.noteStyleScopes.size}`;
+			this.noteStyleScopes.set(key, { className: scope, settings });
+			this.registerStyles();
+		}
+		return scope;
+	}
+
+	/** Replaces the note style scope classes of an editor or reading view */
+	private setNoteStyleScope(el: HTMLElement, scope: string | undefined) {
+		this.clearNoteStyles(el);
+		if (scope) el.addClass(NOTE_STYLE_CLASS, scope);
+	}
+
+	/** Removes the note style scope classes of an editor or reading view */
+	private clearNoteStyles(el: HTMLElement) {
+		for (const className of Array.from(el.classList)) {
+			if (className.startsWith(NOTE_STYLE_CLASS)) {
+				el.removeClass(className);
+			}
+		}
+	}
+
 	private registerStyles() {
-		const existingStyle = document.getElementById(
-			"sentence-highlighter-styles",
-		);
+		const existingStyle = document.getElementById(STYLE_ELEMENT_ID);
 		if (existingStyle) {
 			existingStyle.remove();
 		}
 		const style = document.createElement("style");
-		style.id = "sentence-highlighter-styles";
-
-		// Generate styles based on marking style preference
-		const generateSentenceStyles = () => {
-			const baseStyles = `
-				.sentence-highlighter-status {
-					cursor: pointer;
-					opacity: 0.8;
-					transition: opacity 0.1s ease-in-out;
-				}
-				.sentence-highlighter-status:hover {
-					opacity: 1;
-				}
-				.sentence-highlighter-status.is-active {
-					color: var(--interactive-accent);
-				}
-			`;
-
-			switch (this.settings.markingStyle) {
-				case SentenceMarkingStyle.HIGHLIGHTING: {
-					// Generate contrasting text colors for background highlighting
-					const miniTextColor = getContrastingTextColor(
-						this.settings.miniSentenceColor,
-					);
-					const shortTextColor = getContrastingTextColor(
-						this.settings.shortSentenceColor,
-					);
-					const mediumTextColor = getContrastingTextColor(
-						this.settings.mediumSentenceColor,
-					);
-					const longTextColor = getContrastingTextColor(
-						this.settings.longSentenceColor,
-					);
-
-					return (
-						baseStyles +
-						`
-						.sh-mini {
-							background-color: ${this.settings.miniSentenceColor};
-							color: ${miniTextColor};
-							border-radius: 3px;
-							padding: 1px 2px;
-						}
-						.sh-short {
-							background-color: ${this.settings.shortSentenceColor};
-							color: ${shortTextColor};
-							border-radius: 3px;
-							padding: 1px 2px;
-						}
-						.sh-medium {
-							background-color: ${this.settings.mediumSentenceColor};
-							color: ${mediumTextColor};
-							border-radius: 3px;
-							padding: 1px 2px;
-						}
-						.sh-long {
-							background-color: ${this.settings.longSentenceColor};
-							color: ${longTextColor};
-							border-radius: 3px;
-							padding: 1px 2px;
-						}
-					`
-					);
-				}
-
-				case SentenceMarkingStyle.TEXT_COLOR: {
-					return (
-						baseStyles +
-						`
-						.sh-mini { color: ${this.settings.miniSentenceColor}; }
-						.sh-short { color: ${this.settings.shortSentenceColor}; }
-						.sh-medium { color: ${this.settings.mediumSentenceColor}; }
-						.sh-long { color: ${this.settings.longSentenceColor}; }
-					`
-					);
-				}
+		style.id = STYLE_ELEMENT_ID;
 
-				case SentenceMarkingStyle.COLOR_UNDERLINING: {
-					return (
-						baseStyles +
-						`
-						.sh-mini {
-							text-decoration: underline;
-							text-decoration-color: ${this.settings.miniSentenceColor};
-							text-decoration-thickness: 2px;
-							text-underline-offset: 2px;
-						}
-						.sh-short {
-							text-decoration: underline;
-							text-decoration-color: ${this.settings.shortSentenceColor};
-							text-decoration-thickness: 2px;
-							text-underline-offset: 2px;
-						}
-						.sh-medium {
-							text-decoration: underline;
-							text-decoration-color: ${this.settings.mediumSentenceColor};
-							text-decoration-thickness: 2px;
-							text-underline-offset: 2px;
-						}
-						.sh-long {
-							text-decoration: underline;
-							text-decoration-color: ${this.settings.longSentenceColor};
-							text-decoration-thickness: 2px;
-							text-underline-offset: 2px;
-						}
-					`
-					);
-				}
-
-				default:
-					return baseStyles;
+		const baseStyles = `
+			.sentence-highlighter-status {
+				cursor: pointer;
+				opacity: 0.8;
+				transition: opacity 0.1s ease-in-out;
+			}
+			.sentence-highlighter-status:hover {
+				opacity: 1;
 			}
-		};
+			.sentence-highlighter-status.is-active {
+				color: var(--interactive-accent);
+			}
+			.print [class^="sh-"] {
+				-webkit-print-color-adjust: exact;
+				print-color-adjust: exact;
+			}
+		`;
+
+		// Editor decorations are always styled, except in editors whose note
+		// has its own styles. Rendered Markdown is only styled in reading
+		// views with highlighting on, and in PDF exports if enabled.
+		const scopes = [
+			`.cm-editor:not(.${NOTE_STYLE_CLASS})`,
+			`.${READING_HIGHLIGHT_CLASS}:not(.${NOTE_STYLE_CLASS})`,
+		];
+		if (this.settings.highlightPdfExport) {
+			scopes.push(".print");
+		}
 
-		style.textContent = generateSentenceStyles();
+		style.textContent =
+			baseStyles +
+			generateSentenceStyles(this.getThemedSettings(), scopes) +
+			Array.from(this.noteStyleScopes.values())
+				.map(({ className, settings }) =>
+					generateSentenceStyles(settings, [
+						`.cm-editor.${className}`,
+						`.${READING_HIGHLIGHT_CLASS}.${className}`,
+					]),
+				)
+				.join("");
 		document.head.appendChild(style);
 	}
 }
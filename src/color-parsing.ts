@@ -0,0 +1,348 @@
+/**
+ * Parsing of CSS color values
+ *
+ * Accepts hex colors (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba(),
+ * hsl()/hsla() in both comma and space syntax, named colors, `transparent`
+ * and `var(--name)` custom properties, which are resolved against the
+ * document.
+ */
+
+import { RgbaColor } from "./types";
+
+/** The CSS named colors */
+const NAMED_COLORS: Record<string, string> = {
+	aliceblue: "#f0f8ff",
+	antiquewhite: "#faebd7",
+	aqua: "#00ffff",
+	aquamarine: "#7fffd4",
+	azure: "#f0ffff",
+	beige: "#f5f5dc",
+	bisque: "#ffe4c4",
+	black: "#000000",
+	blanchedalmond: "#ffebcd",
+	blue: "#0000ff",
+	blueviolet: "#8a2be2",
+	brown: "#a52a2a",
+	burlywood: "#deb887",
+	cadetblue: "#5f9ea0",
+	chartreuse: "#7fff00",
+	chocolate: "#d2691e",
+	coral: "#ff7f50",
+	cornflowerblue: "#6495ed",
+	cornsilk: "#fff8dc",
+	crimson: "#dc143c",
+	cyan: "#00ffff",
+	darkblue: "#00008b",
+	darkcyan: "#008b8b",
+	darkgoldenrod: "#b8860b",
+	darkgray: "#a9a9a9",
+	darkgreen: "#006400",
+	darkgrey: "#a9a9a9",
+	darkkhaki: "#bdb76b",
+	darkmagenta: "#8b008b",
+	darkolivegreen: "#556b2f",
+	darkorange: "#ff8c00",
+	darkorchid: "#9932cc",
+	darkred: "#8b0000",
+	darksalmon: "#e9967a",
+	darkseagreen: "#8fbc8f",
+	darkslateblue: "#483d8b",
+	darkslategray: "#2f4f4f",
+	darkslategrey: "#2f4f4f",
+	darkturquoise: "#00ced1",
+	darkviolet: "#9400d3",
+	deeppink: "#ff1493",
+	deepskyblue: "#00bfff",
+	dimgray: "#696969",
+	dimgrey: "#696969",
+	dodgerblue: "#1e90ff",
+	firebrick: "#b22222",
+	floralwhite: "#fffaf0",
+	forestgreen: "#228b22",
+	fuchsia: "#ff00ff",
+	gainsboro: "#dcdcdc",
+	ghostwhite: "#f8f8ff",
+	gold: "#ffd700",
+	goldenrod: "#daa520",
+	gray: "#808080",
+	green: "#008000",
+	greenyellow: "#adff2f",
+	grey: "#808080",
+	honeydew: "#f0fff0",
+	hotpink: "#ff69b4",
+	indianred: "#cd5c5c",
+	indigo: "#4b0082",
+	ivory: "#fffff0",
+	khaki: "#f0e68c",
+	lavender: "#e6e6fa",
+	lavenderblush: "#fff0f5",
+	lawngreen: "#7cfc00",
+	lemonchiffon: "#fffacd",
+	lightblue: "#add8e6",
+	lightcoral: "#f08080",
+	lightcyan: "#e0ffff",
+	lightgoldenrodyellow: "#fafad2",
+	lightgray: "#d3d3d3",
+	lightgreen: "#90ee90",
+	lightgrey: "#d3d3d3",
+	lightpink: "#ffb6c1",
+	lightsalmon: "#ffa07a",
+	lightseagreen: "#20b2aa",
+	lightskyblue: "#87cefa",
+	lightslategray: "#778899",
+	lightslategrey: "#778899",
+	lightsteelblue: "#b0c4de",
+	lightyellow: "#ffffe0",
+	lime: "#00ff00",
+	limegreen: "#32cd32",
+	linen: "#faf0e6",
+	magenta: "#ff00ff",
+	maroon: "#800000",
+	mediumaquamarine: "#66cdaa",
+	mediumblue: "#0000cd",
+	mediumorchid: "#ba55d3",
+	mediumpurple: "#9370db",
+	mediumseagreen: "#3cb371",
+	mediumslateblue: "#7b68ee",
+	mediumspringgreen: "#00fa9a",
+	mediumturquoise: "#48d1cc",
+	mediumvioletred: "#c71585",
+	midnightblue: "#191970",
+	mintcream: "#f5fffa",
+	mistyrose: "#ffe4e1",
+	moccasin: "#ffe4b5",
+	navajowhite: "#ffdead",
+	navy: "#000080",
+	oldlace: "#fdf5e6",
+	olive: "#808000",
+	olivedrab: "#6b8e23",
+	orange: "#ffa500",
+	orangered: "#ff4500",
+	orchid: "#da70d6",
+	palegoldenrod: "#eee8aa",
+	palegreen: "#98fb98",
+	paleturquoise: "#afeeee",
+	palevioletred: "#db7093",
+	papayawhip: "#ffefd5",
+	peachpuff: "#ffdab9",
+	peru: "#cd853f",
+	pink: "#ffc0cb",
+	plum: "#dda0dd",
+	powderblue: "#b0e0e6",
+	purple: "#800080",
+	rebeccapurple: "#663399",
+	red: "#ff0000",
+	rosybrown: "#bc8f8f",
+	royalblue: "#4169e1",
+	saddlebrown: "#8b4513",
+	salmon: "#fa8072",
+	sandybrown: "#f4a460",
+	seagreen: "#2e8b57",
+	seashell: "#fff5ee",
+	sienna: "#a0522d",
+	silver: "#c0c0c0",
+	skyblue: "#87ceeb",
+	slateblue: "#6a5acd",
+	slategray: "#708090",
+	slategrey: "#708090",
+	snow: "#fffafa",
+	springgreen: "#00ff7f",
+	steelblue: "#4682b4",
+	tan: "#d2b48c",
+	teal: "#008080",
+	thistle: "#d8bfd8",
+	tomato: "#ff6347",
+	turquoise: "#40e0d0",
+	violet: "#ee82ee",
+	wheat: "#f5deb3",
+	white: "#ffffff",
+	whitesmoke: "#f5f5f5",
+	yellow: "#ffff00",
+	yellowgreen: "#9acd32",
+};
+
+/** Degrees in one of each CSS angle unit */
+const HUE_UNITS: Record<string, number> = {
+	deg: 1,
+	turn: 360,
+	rad: 180 / Math.PI,
+	grad: 0.9,
+};
+
+/** How deeply custom properties holding other custom properties are followed */
+const MAX_VARIABLE_DEPTH = 8;
+
+/**
+ * Parses a CSS color value
+ * @returns The color with 0-255 channels and 0-1 alpha, or null if the
+ * value is not a color this parser understands
+ */
+export function parseColor(value: string, depth = 0): RgbaColor | null {
+	const color = value.trim().toLowerCase();
+	if (color === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+	if (NAMED_COLORS[color]) return parseHex(NAMED_COLORS[color]);
+	if (color.startsWith("#")) return parseHex(color);
+
+	const fn = color.match(/^([a-z]+)\((.*)\)$/);
+	if (!fn) return null;
+	const [, name, args] = fn;
+	switch (name) {
+		case "rgb":
+		case "rgba":
+			return parseRgb(args);
+		case "hsl":
+		case "hsla":
+			return parseHsl(args);
+		case "var":
+			return depth < MAX_VARIABLE_DEPTH
+				? resolveVariable(args, depth)
+				: null;
+		default:
+			return null;
+	}
+}
+
+/** Whether a value is a CSS color this parser understands */
+export function isValidColor(value: string): boolean {
+	return parseColor(value) !== null;
+}
+
+/**
+ * Formats a color as #rrggbb, dropping its alpha
+ * @returns Hex color string
+ */
+export function formatHex(color: RgbaColor): string {
+	const toHex = (c: number) => {
+		const hex = Math.round(Math.min(255, Math.max(0, c))).toString(16);
+		return hex.length === 1 ? "0" + hex : hex;
+	};
+	return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+}
+
+/**
+ * Converts any CSS color to #rrggbb, blending translucent colors over
+ * `backdrop` (white by default)
+ * @returns Hex color string, or null if the value is not a color
+ */
+export function toHexColor(
+	value: string,
+	backdrop: RgbaColor = { r: 255, g: 255, b: 255, a: 1 },
+): string | null {
+	const color = parseColor(value);
+	return color ? formatHex(compositeOver(color, backdrop)) : null;
+}
+
+/** Blends a translucent color over an opaque backdrop */
+export function compositeOver(
+	color: RgbaColor,
+	backdrop: RgbaColor,
+): RgbaColor {
+	const { a } = color;
+	return {
+		r: color.r * a + backdrop.r * (1 - a),
+		g: color.g * a + backdrop.g * (1 - a),
+		b: color.b * a + backdrop.b * (1 - a),
+		a: 1,
+	};
+}
+
+function parseHex(hex: string): RgbaColor | null {
+	let digits = hex.slice(1);
+	if (!/^[0-9a-f]+$/.test(digits)) return null;
+	if (digits.length === 3 || digits.length === 4) {
+		digits = digits.replace(/./g, "$&$&");
+	}
+	if (digits.length !== 6 && digits.length !== 8) return null;
+
+	const channel = (i: number) => parseInt(digits.slice(i, i + 2), 16);
+	return {
+		r: channel(0),
+		g: channel(2),
+		b: channel(4),
+		a: digits.length === 8 ? channel(6) / 255 : 1,
+	};
+}
+
+/**
+ * Splits function arguments in either syntax: "1, 2, 3, 0.5" or
+ * "1 2 3 / 0.5"
+ */
+function splitArguments(args: string): string[] | null {
+	const parts = args.includes(",")
+		? args.split(",")
+		: args
+				.replace("/", " / ")
+				.split(/\s+/)
+				.filter((part) => part !== "/");
+	const values = parts.map((part) => part.trim()).filter(Boolean);
+	return values.length === 3 || values.length === 4 ? values : null;
+}
+
+/** Parses a number or percentage, scaling percentages to `scale` */
+function parseNumber(value: string, scale: number): number | null {
+	const match = value.match(/^(-?[\d.]+(?:e-?\d+)?)(%)?$/);
+	if (!match) return null;
+	const number = parseFloat(match[1]);
+	if (isNaN(number)) return null;
+	return match[2] ? (number / 100) * scale : number;
+}
+
+function parseAlpha(value: string | undefined): number | null {
+	if (value === undefined) return 1;
+	const alpha = parseNumber(value, 1);
+	return alpha === null ? null : Math.min(1, Math.max(0, alpha));
+}
+
+function parseRgb(args: string): RgbaColor | null {
+	const values = splitArguments(args);
+	if (!values) return null;
+	const [r, g, b] = values.slice(0, 3).map((v) => parseNumber(v, 255));
+	const a = parseAlpha(values[3]);
+	if (r === null || g === null || b === null || a === null) return null;
+
+	const clamp = (c: number) => Math.min(255, Math.max(0, c));
+	return { r: clamp(r), g: clamp(g), b: clamp(b), a };
+}
+
+function parseHsl(args: string): RgbaColor | null {
+	const values = splitArguments(args);
+	if (!values) return null;
+	const hue = parseHue(values[0]);
+	const s = parseNumber(values[1].replace(/%$/, ""), 100);
+	const l = parseNumber(values[2].replace(/%$/, ""), 100);
+	const a = parseAlpha(values[3]);
+	if (hue === null || s === null || l === null || a === null) return null;
+
+	// The standard HSL to RGB conversion, with saturation and lightness 0-1
+	const sat = Math.min(100, Math.max(0, s)) / 100;
+	const light = Math.min(100, Math.max(0, l)) / 100;
+	const k = (n: number) => (n + hue / 30) % 12;
+	const f = (n: number) =>
+		light -
+		sat *
+			Math.min(light, 1 - light) *
+			Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+	return { r: f(0) * 255, g: f(8) * 255, b: f(4) * 255, a };
+}
+
+/** Parses a hue in degrees, turns, radians or gradians, wrapped to 0-360 */
+function parseHue(value: string): number | null {
+	const match = value.match(/^(-?[\d.]+)(deg|turn|rad|grad)?$/);
+	if (!match) return null;
+	const number = parseFloat(match[1]);
+	if (isNaN(number)) return null;
+	const degrees = number * HUE_UNITS[match[2] ?? "deg"];
+	return ((degrees % 360) + 360) % 360;
+}
+
+/** Resolves `var(--name)` or `var(--name, fallback)` against the document */
+function resolveVariable(args: string, depth: number): RgbaColor | null {
+	const match = args.match(/^\s*(--[\w-]+)\s*(?:,(.*))?$/);
+	if (!match) return null;
+	const value =
+		typeof document !== "undefined"
+			? getComputedStyle(document.body).getPropertyValue(match[1]).trim()
+			: "";
+	if (value) return parseColor(value, depth + 1);
+	return match[2] ? parseColor(match[2], depth + 1) : null;
+}
@@ -11,19 +11,40 @@
  * - Background: #fabd2f (bright yellow) → Text: #3d2900 (dark yellow)
  */
 
+import { ColorInterpolation, ContrastLevel, RgbaColor } from "./types";
+import { compositeOver, formatHex, parseColor } from "./color-parsing";
+
+/** Minimum contrast ratio between text and its background for each level */
+export const WCAG_CONTRAST_RATIOS: Record<ContrastLevel, number> = {
+	[ContrastLevel.OFF]: 0,
+	[ContrastLevel.AA]: 4.5,
+	[ContrastLevel.AAA]: 7,
+};
+
+const WHITE: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: RgbaColor = { r: 0, g: 0, b: 0, a: 1 };
+
 /**
- * Converts a hex color to HSL values
- * @param hex The hex color string (e.g., "#ff5555")
+ * Parses any CSS color into an opaque one. Translucent colors are blended
+ * over the note background, and values that are not colors become black.
+ */
+function toOpaque(color: string): RgbaColor {
+	const parsed = parseColor(color) ?? BLACK;
+	if (parsed.a >= 1) return parsed;
+	const background = parseColor("var(--background-primary)") ?? WHITE;
+	return compositeOver(parsed, compositeOver(background, WHITE));
+}
+
+/**
+ * Converts a color to HSL values
+ * @param hex Any CSS color (e.g., "#ff5555" or "rgb(255 85 85)")
  * @returns Object with h, s, l values
  */
 export function hexToHsl(hex: string): { h: number; s: number; l: number } {
-	// Remove # if present
-	hex = hex.replace("#", "");
-
-	// Convert to RGB
-	const r = parseInt(hex.substr(0, 2), 16) / 255;
-	const g = parseInt(hex.substr(2, 2), 16) / 255;
-	const b = parseInt(hex.substr(4, 2), 16) / 255;
+	const color = toOpaque(hex);
+	const r = color.r / 255;
+	const g = color.g / 255;
+	const b = color.b / 255;
 
 	const max = Math.max(r, g, b);
 	const min = Math.min(r, g, b);
@@ -104,10 +125,17 @@ export function hslToHex(h: number, s: number, l: number): string {
  *    - Dark backgrounds (≤50% lightness) get light text (~75-85% lightness)
  * 4. Slightly boosting saturation for better visibility
  *
- * @param backgroundColor The background color in hex format (e.g., "#ff5555")
+ * 5. If `minContrast` is given, moving lightness further until the text meets
+ *    that contrast ratio (see `ensureContrast`)
+ *
+ * @param backgroundColor The background color (e.g., "#ff5555")
+ * @param minContrast Contrast ratio the text must reach, e.g. 4.5 for WCAG AA
  * @returns A contrasting text color in hex format that maintains readability
  */
-export function getContrastingTextColor(backgroundColor: string): string {
+export function getContrastingTextColor(
+	backgroundColor: string,
+	minContrast = 0,
+): string {
 	const hsl = hexToHsl(backgroundColor);
 
 	// For light backgrounds (lightness > 50%), use a much darker version
@@ -124,5 +152,220 @@ export function getContrastingTextColor(backgroundColor: string): string {
 	// Increase saturation slightly for better visibility while maintaining hue
 	const adjustedSaturation = Math.min(100, hsl.s * 1.1);
 
-	return hslToHex(hsl.h, adjustedSaturation, newLightness);
+	const textColor = hslToHex(hsl.h, adjustedSaturation, newLightness);
+	return minContrast > 0
+		? ensureContrast(textColor, backgroundColor, minContrast)
+		: textColor;
+}
+
+/**
+ * Relative luminance of a color as defined by WCAG 2
+ * @returns 0 for black up to 1 for white
+ */
+export function relativeLuminance(color: string): number {
+	const { r, g, b } = toOpaque(color);
+	const [lr, lg, lb] = [r, g, b].map((c) => srgbToLinear(c / 255));
+	return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * Contrast ratio between two colors as defined by WCAG 2
+ * @returns 1 for identical luminance up to 21 for black on white
+ */
+export function contrastRatio(a: string, b: string): number {
+	const la = relativeLuminance(a);
+	const lb = relativeLuminance(b);
+	return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/**
+ * Darkens or lightens a text color, keeping its hue, until it reaches a
+ * contrast ratio against its background. Moves towards whichever of black
+ * or white contrasts more, and changes lightness as little as needed.
+ * @returns Hex color string, black or white if the hue cannot reach the ratio
+ */
+export function ensureContrast(
+	textColor: string,
+	backgroundColor: string,
+	minContrast: number,
+): string {
+	if (contrastRatio(textColor, backgroundColor) >= minContrast) {
+		return formatHex(toOpaque(textColor));
+	}
+
+	const hsl = hexToHsl(textColor);
+	const darken =
+		contrastRatio("#000000", backgroundColor) >=
+		contrastRatio("#ffffff", backgroundColor);
+	const extreme = darken ? "#000000" : "#ffffff";
+	if (contrastRatio(extreme, backgroundColor) < minContrast) return extreme;
+
+	// Contrast changes monotonically with lightness in this direction, so
+	// search between the current lightness and black or white.
+	let near = hsl.l;
+	let far = darken ? 0 : 100;
+	for (let i = 0; i < 20; i++) {
+		const middle = (near + far) / 2;
+		const candidate = hslToHex(hsl.h, hsl.s, middle);
+		if (contrastRatio(candidate, backgroundColor) >= minContrast) {
+			far = middle;
+		} else {
+			near = middle;
+		}
+	}
+	return hslToHex(hsl.h, hsl.s, far);
+}
+
+/**
+ * Converts a color to OKLCH, a perceptual color space in which equal
+ * steps look roughly equally different
+ * @param hex Any CSS color (e.g., "#ff5555" or "hsl(0 100% 67%)")
+ * @returns Object with l (0-1), c (chroma) and h (0-360) values
+ */
+export function hexToOklch(hex: string): { l: number; c: number; h: number } {
+	const color = toOpaque(hex);
+	const [r, g, b] = [color.r, color.g, color.b].map((c) =>
+		srgbToLinear(c / 255),
+	);
+
+	const lms = [
+		0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b,
+		0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b,
+		0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b,
+	].map(Math.cbrt);
+
+	// OKLab lightness and opponent axes (green-red, blue-yellow)
+	const l =
+		0.2104542553 * lms[0] + 0.793617785 * lms[1] - 0.0040720468 * lms[2];
+	const labA =
+		1.9779984951 * lms[0] - 2.428592205 * lms[1] + 0.4505937099 * lms[2];
+	const labB =
+		0.0259040371 * lms[0] + 0.7827717662 * lms[1] - 0.808675766 * lms[2];
+
+	const h = (Math.atan2(labB, labA) * 180) / Math.PI;
+	return {
+		l,
+		c: Math.sqrt(labA * labA + labB * labB),
+		h: (h + 360) % 360,
+	};
+}
+
+/**
+ * Converts OKLCH values to a hex color, clipping colors outside sRGB
+ * @param l Lightness (0-1)
+ * @param c Chroma
+ * @param h Hue (0-360)
+ * @returns Hex color string
+ */
+export function oklchToHex(l: number, c: number, h: number): string {
+	const a = c * Math.cos((h * Math.PI) / 180);
+	const b = c * Math.sin((h * Math.PI) / 180);
+
+	const [lc, mc, sc] = [
+		l + 0.3963377774 * a + 0.2158037573 * b,
+		l - 0.1055613458 * a - 0.0638541728 * b,
+		l - 0.0894841775 * a - 1.291485548 * b,
+	].map((v) => v * v * v);
+
+	const rgb = [
+		4.0767416621 * lc - 3.3077115913 * mc + 0.2309699292 * sc,
+		-1.2684380046 * lc + 2.6097574011 * mc - 0.3413193965 * sc,
+		-0.0041960863 * lc - 0.7034186147 * mc + 1.707614701 * sc,
+	];
+
+	const toHex = (c: number) => {
+		const value = linearToSrgb(Math.min(1, Math.max(0, c)));
+		const hex = Math.round(value * 255).toString(16);
+		return hex.length === 1 ? "0" + hex : hex;
+	};
+
+	return `#${rgb.map(toHex).join("")}`;
+}
+
+function srgbToLinear(c: number): number {
+	return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(c: number): number {
+	return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+/** Moves `t` of the way from hue `from` to hue `to` the shorter way round */
+function mixHues(from: number, to: number, t: number): number {
+	let delta = to - from;
+	if (delta > 180) delta -= 360;
+	if (delta < -180) delta += 360;
+	return (from + delta * t + 360) % 360;
+}
+
+/**
+ * Blends two hex colors, taking the shorter way around the hue circle
+ * @param from Color at t = 0
+ * @param to Color at t = 1
+ * @param t Position between the two colors (0-1)
+ * @param space Color space to blend in
+ * @returns Hex color string
+ */
+export function mixColors(
+	from: string,
+	to: string,
+	t: number,
+	space: ColorInterpolation = ColorInterpolation.HSL,
+): string {
+	if (space === ColorInterpolation.OKLCH) {
+		const a = hexToOklch(from);
+		const b = hexToOklch(to);
+		// Grays have no meaningful hue; borrow the other color's.
+		const hueA = a.c < 0.0001 ? b.h : a.h;
+		const hueB = b.c < 0.0001 ? a.h : b.h;
+		return oklchToHex(
+			a.l + (b.l - a.l) * t,
+			a.c + (b.c - a.c) * t,
+			mixHues(hueA, hueB, t),
+		);
+	}
+
+	const a = hexToHsl(from);
+	const b = hexToHsl(to);
+	return hslToHex(
+		mixHues(a.h, b.h, t),
+		a.s + (b.s - a.s) * t,
+		a.l + (b.l - a.l) * t,
+	);
+}
+
+/**
+ * Picks the color at position `t` along a ramp through `colors`
+ * @param colors Ramp stops, evenly spaced from t = 0 to t = 1
+ * @param t Position along the ramp (0-1)
+ * @param space Color space to blend neighbouring stops in
+ * @returns Hex color string
+ */
+export function rampColor(
+	colors: string[],
+	t: number,
+	space: ColorInterpolation = ColorInterpolation.HSL,
+): string {
+	if (colors.length === 1) return colors[0];
+	const position = Math.min(1, Math.max(0, t)) * (colors.length - 1);
+	const lower = Math.floor(position);
+	if (lower >= colors.length - 1) return colors[colors.length - 1];
+	return mixColors(colors[lower], colors[lower + 1], position - lower, space);
+}
+
+/**
+ * Stretches or squeezes a palette to a given number of colors.
+ * Palettes of the right size are returned unchanged; otherwise colors are
+ * picked at even intervals along the palette, blending neighbours as needed.
+ * @param colors Palette colors from first to last
+ * @param count Number of colors needed
+ * @returns Array of `count` hex colors
+ */
+export function samplePalette(colors: string[], count: number): string[] {
+	if (colors.length === count) return [...colors];
+	if (count === 1) return [colors[0]];
+
+	return Array.from({ length: count }, (_, index) =>
+		rampColor(colors, index / (count - 1)),
+	);
 }
@@ -0,0 +1,125 @@
+/**
+ * Focus mode: marking only the text around the cursor while drafting
+ *
+ * The highlighter analyzes as usual and then keeps only the decorations
+ * inside the focus range, optionally dimming the text outside it.
+ */
+
+import { EditorState } from "@codemirror/state";
+import { Decoration, DecorationSet } from "@codemirror/view";
+import { FocusScope, MusicalTextSettings, SentenceRange } from "./types";
+import { collectProseBlocks, getParagraphRange } from "./markdown-structure";
+
+/** Class of the text outside the focus range when dimming is on */
+export const DIMMED_CLASS = "musical-text-dimmed";
+
+/** Names of the focus scopes, in the order commands cycle through them */
+export const FOCUS_SCOPE_NAMES: Record<FocusScope, string> = {
+	[FocusScope.DOCUMENT]: "Whole document",
+	[FocusScope.PARAGRAPH]: "Current paragraph",
+	[FocusScope.SENTENCE]: "Current sentence and neighbours",
+	[FocusScope.SELECTION]: "Current selection",
+};
+
+const dimmed = Decoration.mark({ class: DIMMED_CLASS });
+
+/**
+ * The scope `step` places after `scope` in the cycle, wrapping around;
+ * a negative step goes backwards
+ */
+export function getNextFocusScope(scope: FocusScope, step: number): FocusScope {
+	const scopes = Object.values(FocusScope);
+	const index = scopes.indexOf(scope);
+	return scopes[(index + step + scopes.length) % scopes.length];
+}
+
+/**
+ * The range in focus for the main selection
+ * @param getSentences Finds the sentences of a prose block's text
+ * @returns The range, which is empty when nothing is in focus, or null when
+ * the whole document is
+ */
+export function getFocusRange(
+	state: EditorState,
+	settings: MusicalTextSettings,
+	getSentences: (text: string) => SentenceRange[],
+): { from: number; to: number } | null {
+	const selection = state.selection.main;
+	switch (settings.focusScope) {
+		case FocusScope.SELECTION:
+			return { from: selection.from, to: selection.to };
+
+		case FocusScope.PARAGRAPH:
+		case FocusScope.SENTENCE: {
+			const head = selection.head;
+			const paragraph = getParagraphRange(state, head, head);
+			const block = collectProseBlocks(
+				state,
+				paragraph.from,
+				paragraph.to,
+				settings,
+			).find(
+				({ from, text }) => from <= head && head <= from + text.length,
+			);
+			if (!block) return paragraph;
+			const blockRange = {
+				from: block.from,
+				to: block.from + block.text.length,
+			};
+			if (settings.focusScope === FocusScope.PARAGRAPH) {
+				return blockRange;
+			}
+
+			const sentences = getSentences(block.text);
+			if (sentences.length === 0) return blockRange;
+			let index = sentences.findIndex(
+				(sentence) => block.from + sentence.to >= head,
+			);
+			if (index === -1) index = sentences.length - 1;
+			const first = Math.max(0, index - settings.focusNeighbours);
+			const last = Math.min(
+				sentences.length - 1,
+				index + settings.focusNeighbours,
+			);
+			return {
+				from: block.from + sentences[first].from,
+				to: block.from + sentences[last].to,
+			};
+		}
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Keeps the decorations that touch the focus range, and dims the text
+ * outside it if enabled. Line decorations are kept for every line the range
+ * touches.
+ */
+export function focusDecorations(
+	decorations: DecorationSet,
+	state: EditorState,
+	settings: MusicalTextSettings,
+	range: { from: number; to: number } | null,
+): DecorationSet {
+	if (!range) return decorations;
+	// With an empty selection nothing is marked, and nothing is dimmed.
+	if (range.from === range.to) return Decoration.none;
+
+	const lineStart = state.doc.lineAt(range.from).from;
+	const focused = decorations.update({
+		filter: (from, to) =>
+			from === to
+				? from >= lineStart && from <= range.to
+				: to > range.from && from < range.to,
+	});
+	if (!settings.dimOutsideFocus) return focused;
+
+	const dims = [];
+	if (range.from > 0) dims.push(dimmed.range(0, range.from));
+	if (range.to < state.doc.length) {
+		dims.push(dimmed.range(range.to, state.doc.length));
+	}
+	return focused.update({ add: dims, sort: true });
+}
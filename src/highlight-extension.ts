@@ -0,0 +1,352 @@
+/**
+ * CodeMirror extension that keeps sentence decorations up to date
+ *
+ * Decorations are mapped through document changes, and only the paragraphs
+ * a change touched are re-analyzed. Scrolling analyzes just the newly
+ * visible paragraphs, widened to paragraph edges so that sentences crossing
+ * the viewport boundary are measured in full. Results are cached per
+ * paragraph text, so unchanged paragraphs are never segmented twice.
+ * Changes to a line that opens or closes a code, math, comment or
+ * frontmatter block can reclassify every paragraph after it, so they
+ * re-analyze the visible text in full.
+ */
+
+import { Range, StateEffect, Text } from "@codemirror/state";
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	PluginValue,
+	ViewPlugin,
+	ViewUpdate,
+} from "@codemirror/view";
+import { syntaxTree } from "@codemirror/language";
+import MusicalTextPlugin from "../main";
+import { FocusScope, MusicalTextSettings, SentenceRange } from "./types";
+import { decorateSentences, findSentences } from "./sentence-detection";
+import { collectProseBlocks, getParagraphRange } from "./markdown-structure";
+import { decorateRuns, findMonotonousRuns } from "./monotony";
+import { focusDecorations, getFocusRange } from "./focus-mode";
+
+/**
+ * Makes an editor re-read its enabled state and re-analyze from scratch.
+ * Dispatched after toggling highlighting or changing settings.
+ */
+export const refreshHighlightEffect = StateEffect.define<null>();
+
+/**
+ * Makes an editor re-apply focus mode to its decorations without
+ * re-analyzing. Dispatched after changing the focus scope.
+ */
+export const refreshFocusEffect = StateEffect.define<null>();
+
+/** Upper bound on cached paragraphs per editor */
+const MAX_CACHED_PARAGRAPHS = 5000;
+
+/**
+ * Lines that can open or close a block spanning paragraphs: code fences,
+ * math, comments, HTML comments and frontmatter or rule lines
+ */
+const BLOCK_DELIMITER_REGEX = /`{3}|~{3}|\$\$|%%|<!--|-->|^\s*-{3,}\s*$/m;
+
+/** A document range, used to track which paragraphs have been analyzed */
+interface TextRange {
+	from: number;
+	to: number;
+}
+
+/**
+ * Least-recently-used cache of sentence analysis, keyed by paragraph text.
+ * Sentence offsets are relative to the start of the paragraph.
+ */
+class ParagraphCache {
+	private entries = new Map<string, SentenceRange[]>();
+	hits = 0;
+	misses = 0;
+
+	get(text: string, settings: MusicalTextSettings): SentenceRange[] {
+		let sentences = this.entries.get(text);
+		if (sentences) {
+			this.hits++;
+			// Re-insert to mark the entry as recently used.
+			this.entries.delete(text);
+			this.entries.set(text, sentences);
+			return sentences;
+		}
+
+		this.misses++;
+		sentences = findSentences(text, settings);
+		this.entries.set(text, sentences);
+		if (this.entries.size > MAX_CACHED_PARAGRAPHS) {
+			const oldest = this.entries.keys().next().value;
+			this.entries.delete(oldest);
+		}
+		return sentences;
+	}
+
+	clear() {
+		this.entries.clear();
+	}
+
+	resetStats() {
+		this.hits = 0;
+		this.misses = 0;
+	}
+}
+
+/** Per-editor highlighting state */
+class SentenceHighlightView implements PluginValue {
+	/** The decorations shown: those of the analysis within the focus range */
+	decorations: DecorationSet = Decoration.none;
+	/** Decorations of every analyzed paragraph */
+	private marks: DecorationSet = Decoration.none;
+	/** Sorted, non-overlapping ranges whose paragraphs are analyzed */
+	private covered: TextRange[] = [];
+	private cache = new ParagraphCache();
+	/** Length of the syntax tree at the last analysis */
+	private parsedLength = 0;
+
+	constructor(
+		private view: EditorView,
+		private plugin: MusicalTextPlugin,
+	) {
+		this.plugin.trackEditor(view);
+		if (this.plugin.editorHighlightingMap.get(view)) {
+			this.plugin.applyNoteStyles(
+				view,
+				this.plugin.getEditorSettings(view),
+			);
+			this.analyze(view, () => this.analyzeVisible(view));
+		}
+	}
+
+	destroy() {
+		this.plugin.untrackEditor(this.view);
+	}
+
+	update(update: ViewUpdate) {
+		const view = update.view;
+		if (!this.plugin.editorHighlightingMap.get(view)) {
+			if (this.marks !== Decoration.none) {
+				this.reset();
+				this.cache.clear();
+			}
+			return;
+		}
+
+		const refresh = update.transactions.some((tr) =>
+			tr.effects.some((effect) => effect.is(refreshHighlightEffect)),
+		);
+		const refocus =
+			(update.selectionSet &&
+				this.plugin.settings.focusScope !== FocusScope.DOCUMENT) ||
+			update.transactions.some((tr) =>
+				tr.effects.some((effect) => effect.is(refreshFocusEffect)),
+			);
+		// The parser caught up with text it had not reached before, which can
+		// change how already-analyzed lines are classified.
+		const parseAdvanced =
+			!update.docChanged &&
+			syntaxTree(update.state) !== syntaxTree(update.startState) &&
+			this.parsedLength < view.viewport.to;
+		const restructured = update.docChanged && changesBlockDelimiter(update);
+
+		if (refresh) {
+			this.cache.clear();
+			this.reset();
+			this.plugin.applyNoteStyles(
+				view,
+				this.plugin.getEditorSettings(view),
+			);
+		} else if (parseAdvanced || restructured) {
+			this.reset();
+		} else if (!update.docChanged && !update.viewportChanged) {
+			// The cursor moved, which can move the focus range.
+			if (refocus) this.applyFocus(view);
+			return;
+		}
+
+		this.analyze(view, () => {
+			if (update.docChanged) {
+				this.applyChanges(update);
+			}
+			this.analyzeVisible(view);
+		});
+	}
+
+	/** Runs an analysis pass, reporting its duration in benchmark mode */
+	private analyze(view: EditorView, pass: () => void) {
+		const start = performance.now();
+		this.cache.resetStats();
+
+		pass();
+		this.parsedLength = syntaxTree(view.state).length;
+		this.applyFocus(view);
+
+		if (this.plugin.settings.benchmarkMode) {
+			const elapsed = performance.now() - start;
+			console.log(
+				`Musical Text: analyzed ${this.cache.misses} paragraphs (${
+					this.cache.hits
+				} cached) in ${elapsed.toFixed(2)} ms`,
+			);
+		}
+	}
+
+	/** Maps existing decorations through a change and re-analyzes touched paragraphs */
+	private applyChanges(update: ViewUpdate) {
+		this.marks = this.marks.map(update.changes);
+		this.covered = mergeRanges(
+			this.covered.map((range) => ({
+				from: update.changes.mapPos(range.from, 1),
+				to: update.changes.mapPos(range.to, -1),
+			})),
+		);
+
+		const settings = this.plugin.getEditorSettings(update.view);
+		update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+			this.analyzeRange(update.view, fromB, toB, settings);
+		});
+	}
+
+	/** Analyzes the visible paragraphs that have not been analyzed yet */
+	private analyzeVisible(view: EditorView) {
+		const settings = this.plugin.getEditorSettings(view);
+		for (const visible of view.visibleRanges) {
+			for (const gap of this.uncoveredParts(visible.from, visible.to)) {
+				this.analyzeRange(view, gap.from, gap.to, settings);
+			}
+		}
+	}
+
+	/** Replaces the decorations of the paragraphs touching `from`-`to` */
+	private analyzeRange(
+		view: EditorView,
+		from: number,
+		to: number,
+		settings: MusicalTextSettings,
+	) {
+		const state = view.state;
+		const range = getParagraphRange(state, from, to);
+
+		const added: Range<Decoration>[] = [];
+		for (const block of collectProseBlocks(
+			state,
+			range.from,
+			range.to,
+			settings,
+		)) {
+			const sentences = this.cache.get(block.text, settings);
+			added.push(
+				...decorateSentences(block.text, sentences, settings, block.from),
+			);
+			if (settings.detectMonotony) {
+				added.push(
+					...decorateRuns(
+						state.doc,
+						findMonotonousRuns(sentences, settings),
+						block.from,
+					),
+				);
+			}
+		}
+
+		this.marks = this.marks.update({
+			filterFrom: range.from,
+			filterTo: range.to,
+			filter: () => false,
+			add: added,
+			sort: true,
+		});
+		this.covered = mergeRanges([...this.covered, range]);
+	}
+
+	/** Returns the parts of `from`-`to` not yet analyzed */
+	private uncoveredParts(from: number, to: number): TextRange[] {
+		const parts: TextRange[] = [];
+		let pos = from;
+		for (const range of this.covered) {
+			if (range.to <= pos) continue;
+			if (range.from >= to) break;
+			if (range.from > pos) {
+				parts.push({ from: pos, to: range.from });
+			}
+			pos = range.to;
+			if (pos >= to) break;
+		}
+		if (pos < to) {
+			parts.push({ from: pos, to });
+		}
+		return parts;
+	}
+
+	private reset() {
+		this.marks = Decoration.none;
+		this.decorations = Decoration.none;
+		this.covered = [];
+	}
+
+	/** Shows the analyzed decorations within the current focus range */
+	private applyFocus(view: EditorView) {
+		const settings = this.plugin.getEditorSettings(view);
+		const range = getFocusRange(view.state, settings, (text) =>
+			this.cache.get(text, settings),
+		);
+		this.decorations = focusDecorations(
+			this.marks,
+			view.state,
+			settings,
+			range,
+		);
+	}
+}
+
+/**
+ * Whether a change adds, edits or removes a line that delimits a block
+ * spanning paragraphs, such as a code fence
+ */
+function changesBlockDelimiter(update: ViewUpdate): boolean {
+	const hasDelimiter = (doc: Text, from: number, to: number) =>
+		BLOCK_DELIMITER_REGEX.test(
+			doc.sliceString(doc.lineAt(from).from, doc.lineAt(to).to),
+		);
+	let changed = false;
+	update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+		if (changed) return;
+		changed =
+			hasDelimiter(update.startState.doc, fromA, toA) ||
+			hasDelimiter(update.state.doc, fromB, toB);
+	});
+	return changed;
+}
+
+/** Sorts ranges and merges those that overlap or touch */
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+	const sorted = ranges
+		.filter((range) => range.from <= range.to)
+		.sort((a, b) => a.from - b.from);
+	const merged: TextRange[] = [];
+	for (const range of sorted) {
+		const last = merged[merged.length - 1];
+		if (last && range.from <= last.to) {
+			last.to = Math.max(last.to, range.to);
+		} else {
+			merged.push({ ...range });
+		}
+	}
+	return merged;
+}
+
+/**
+ * Creates the editor extension that highlights sentences in every editor
+ * where highlighting is enabled.
+ * @param plugin Reference to the plugin instance for accessing settings and state
+ */
+export function createSentenceHighlighter(plugin: MusicalTextPlugin) {
+	return ViewPlugin.define(
+		(view) => new SentenceHighlightView(view, plugin),
+		{
+			decorations: (value) => value.decorations,
+		},
+	);
+}
@@ -0,0 +1,90 @@
+/**
+ * Rules that turn editor highlighting on for matching notes
+ *
+ * One rule per line:
+ * - `#tag` matches notes with that tag or one nested below it
+ * - `folder/` matches notes anywhere inside that folder, as does the name of
+ *   an existing folder without the slash
+ * - anything else is a glob over the note's path, where `*` stays within a
+ *   folder, `**` crosses folders and `?` is any single character
+ *
+ * Like tags, folders and globs ignore case.
+ */
+
+import { HighlightRule } from "./types";
+
+/**
+ * Parses rules, one per line, skipping blank lines
+ * @param isFolder Whether a vault path is a folder, so that a folder named
+ * without its trailing slash is still a folder rule
+ */
+export function parseHighlightRules(
+	lines: string[],
+	isFolder: (path: string) => boolean = () => false,
+): HighlightRule[] {
+	const rules: HighlightRule[] = [];
+	for (const line of lines) {
+		const rule = line.trim();
+		if (!rule) continue;
+		const folder = rule.replace(/^\/+|\/+$/g, "");
+		if (rule.startsWith("#")) {
+			rules.push({ kind: "tag", tag: rule.toLowerCase() });
+		} else if (rule.endsWith("/") || isFolder(folder)) {
+			rules.push({ kind: "folder", folder: `${folder.toLowerCase()}/` });
+		} else {
+			rules.push({ kind: "glob", regex: globToRegExp(rule) });
+		}
+	}
+	return rules;
+}
+
+/**
+ * Whether a note matches any rule
+ * @param path Vault path of the note
+ * @param tags The note's tags, including the leading `#`
+ */
+export function matchesHighlightRules(
+	rules: HighlightRule[],
+	path: string,
+	tags: string[],
+): boolean {
+	const lowerTags = tags.map((tag) => tag.toLowerCase());
+	const lowerPath = path.toLowerCase();
+	return rules.some((rule) => {
+		switch (rule.kind) {
+			case "tag":
+				return lowerTags.some(
+					(tag) => tag === rule.tag || tag.startsWith(`${rule.tag}/`),
+				);
+			case "folder":
+				return lowerPath.startsWith(rule.folder);
+			case "glob":
+				return rule.regex.test(path);
+		}
+	});
+}
+
+/** Converts a path glob into an anchored regular expression */
+function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "*" && glob[i + 1] === "*") {
+			// `**/` also matches no folder at all.
+			if (glob[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i++;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`, "i");
+}
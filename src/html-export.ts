@@ -0,0 +1,246 @@
+/**
+ * Standalone HTML export of a note with its sentences marked
+ *
+ * The note's text is written line by line as it appears in the editor, with
+ * the same decorations the highlighter would add over the whole document and
+ * the same stylesheet, so the file looks like the editor without Obsidian.
+ */
+
+import { App, TFile, getFrontMatterInfo, normalizePath } from "obsidian";
+import { EditorState } from "@codemirror/state";
+import { ensureSyntaxTree } from "@codemirror/language";
+import { Decoration } from "@codemirror/view";
+import { MusicalTextSettings } from "./types";
+import {
+	computeDecorations,
+	formatBucketRange,
+	getLengthBuckets,
+	getMetricUnit,
+	getSentenceColorStyle,
+} from "./sentence-detection";
+import { collectProseBlocks } from "./markdown-structure";
+import { generateSentenceStyles } from "./sentence-styles";
+import { getLineClass } from "./marking-styles";
+import { toHexColor } from "./color-parsing";
+
+/** Container of the exported text, scoping the sentence styles */
+const EXPORT_CLASS = "musical-text-export";
+
+/** How long to wait for the Markdown parser to reach the end of a note (ms) */
+const FULL_PARSE_TIMEOUT = 500;
+
+/** A decoration's class and inline style, where it applies */
+interface ExportMark {
+	from: number;
+	to: number;
+	className: string;
+	style: string | null;
+}
+
+/**
+ * Renders a note as a standalone HTML page with a legend of the length
+ * bands
+ * @param title Page title, usually the note's name
+ */
+export function renderRhythmHtml(
+	state: EditorState,
+	settings: MusicalTextSettings,
+	title: string,
+): string {
+	const { marks, lineMarks } = collectMarks(state, settings);
+	const doc = state.doc;
+	const contentStart = getFrontMatterInfo(doc.toString()).contentStart;
+
+	const lines: string[] = [];
+	let markIndex = 0;
+	for (let n = doc.lineAt(contentStart).number; n <= doc.lines; n++) {
+		const line = doc.line(n);
+		let html = "";
+		let pos = line.from;
+		while (markIndex < marks.length && marks[markIndex].from < line.to) {
+			const mark = marks[markIndex++];
+			// Marks in frontmatter are left out with it.
+			if (mark.from < line.from) continue;
+			html += escapeHtml(doc.sliceString(pos, mark.from));
+			html += `<span${attributes(mark)}>${escapeHtml(
+				doc.sliceString(mark.from, mark.to),
+			)}</span>`;
+			pos = mark.to;
+		}
+		html += escapeHtml(doc.sliceString(pos, line.to));
+
+		const lineMark = lineMarks.get(line.from);
+		const lineAttributes = attributes({
+			className: lineMark ? `line ${lineMark.className}` : "line",
+			style: lineMark?.style ?? null,
+		});
+		lines.push(`<div${lineAttributes}>${html || "<br>"}</div>`);
+	}
+
+	return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${generateExportStyles(settings)}</style>
+</head>
+<body>
+<div class="${EXPORT_CLASS}">
+<h1>${escapeHtml(title)}</h1>
+${renderLegend(settings)}
+<div class="text">
+${lines.join("\n")}
+</div>
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Writes a note's HTML export next to it, replacing an earlier export
+ * @returns The path of the file
+ */
+export async function exportRhythmHtml(
+	app: App,
+	file: TFile,
+	state: EditorState,
+	settings: MusicalTextSettings,
+): Promise<string> {
+	const folder =
+		file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : "";
+	const path = normalizePath(`${folder}${file.basename}.rhythm.html`);
+	const html = renderRhythmHtml(state, settings, file.basename);
+
+	const existing = app.vault.getAbstractFileByPath(path);
+	if (existing instanceof TFile) {
+		await app.vault.modify(existing, html);
+	} else {
+		await app.vault.create(path, html);
+	}
+	return path;
+}
+
+/**
+ * Decorates every prose paragraph of the document, returning the sentence
+ * marks in document order and the line marks by line start
+ */
+function collectMarks(
+	state: EditorState,
+	settings: MusicalTextSettings,
+): { marks: ExportMark[]; lineMarks: Map<number, ExportMark> } {
+	const tree = ensureSyntaxTree(state, state.doc.length, FULL_PARSE_TIMEOUT);
+	const marks: ExportMark[] = [];
+	const lineMarks = new Map<number, ExportMark>();
+
+	for (const block of collectProseBlocks(
+		state,
+		0,
+		state.doc.length,
+		settings,
+		tree ?? undefined,
+	)) {
+		computeDecorations(block.text, settings, block.from).between(
+			block.from,
+			block.from + block.text.length,
+			(from, to, decoration: Decoration) => {
+				const spec = decoration.spec as {
+					class: string;
+					attributes?: { style: string };
+				};
+				const mark = {
+					from,
+					to,
+					className: spec.class,
+					style: spec.attributes?.style ?? null,
+				};
+				if (from === to) {
+					lineMarks.set(from, mark);
+				} else {
+					marks.push(mark);
+				}
+			},
+		);
+	}
+	return { marks, lineMarks };
+}
+
+/** A legend listing each band's name and length range in its own style */
+function renderLegend(settings: MusicalTextSettings): string {
+	const unit = getMetricUnit(settings.lengthMetric);
+	const items = getLengthBuckets(settings).map((bucket) => {
+		const style = getSentenceColorStyle(bucket.minLength, settings);
+		const sample = attributes({
+			className: bucket.className,
+			style,
+		});
+		const line = attributes({
+			className: getLineClass(bucket.className),
+			style,
+		});
+		return `<li${line}><span${sample}>${escapeHtml(
+			bucket.name,
+		)}</span> ${formatBucketRange(bucket)} ${unit}</li>`;
+	});
+	return `<ul class="legend">\n${items.join("\n")}\n</ul>`;
+}
+
+/**
+ * The editor's sentence styles scoped to the export, on the note background
+ * and text colors of the current theme
+ */
+function generateExportStyles(settings: MusicalTextSettings): string {
+	const background = toHexColor("var(--background-primary)") ?? "#ffffff";
+	const text = toHexColor("var(--text-normal)") ?? "#222222";
+	return `
+		body {
+			margin: 0;
+			background: ${background};
+			color: ${text};
+		}
+		.${EXPORT_CLASS} {
+			max-width: 42em;
+			margin: 2em auto;
+			padding: 0 1em;
+			font-family: system-ui, sans-serif;
+			line-height: 1.6;
+		}
+		.${EXPORT_CLASS} .legend {
+			display: flex;
+			flex-wrap: wrap;
+			gap: 0.5em 1.5em;
+			padding: 0 0 1em;
+			list-style: none;
+			font-size: 0.9em;
+		}
+		.${EXPORT_CLASS} .legend li {
+			padding-left: 6px;
+		}
+		.${EXPORT_CLASS} .line {
+			padding-left: 6px;
+			white-space: pre-wrap;
+		}
+		.${EXPORT_CLASS} [class*="sh-"] {
+			-webkit-print-color-adjust: exact;
+			print-color-adjust: exact;
+		}
+	${generateSentenceStyles(settings, [`.${EXPORT_CLASS}`])}`;
+}
+
+/** Renders a class and optional inline style as HTML attributes */
+function attributes(mark: {
+	className: string;
+	style: string | null;
+}): string {
+	const style = mark.style ? ` style="${escapeHtml(mark.style)}"` : "";
+	return ` class="${escapeHtml(mark.className)}"${style}`;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
@@ -0,0 +1,357 @@
+/**
+ * Markdown structure detection for Musical Text highlighting
+ *
+ * Walks the editor's Markdown syntax tree so that only prose is analyzed.
+ * Obsidian's Markdown tree is made of token nodes whose names join their
+ * token classes with underscores (e.g. "header_header-1",
+ * "HyperMD-codeblock_HyperMD-codeblock-bg"). Each line is classified by the
+ * classes of the tokens on it, and non-prose tokens inside prose lines
+ * (URLs, markup, inline math, HTML tags, comments) are masked out.
+ * Consecutive prose lines are joined into paragraphs so that sentences in
+ * hard-wrapped Markdown continue across single line breaks.
+ */
+
+import { EditorState } from "@codemirror/state";
+import { syntaxTree } from "@codemirror/language";
+import { Tree } from "@lezer/common";
+import { MarkdownBlockType, MusicalTextSettings, ProseBlock } from "./types";
+
+/** How a masked token is replaced in the analyzed text */
+enum MaskKind {
+	/** Replaced with spaces: the token contributes no words */
+	Blank,
+	/** Replaced with a single placeholder word, e.g. inline code */
+	Word,
+}
+
+/** A token range hidden from sentence analysis */
+interface MaskedRange {
+	from: number;
+	to: number;
+	kind: MaskKind;
+}
+
+/** Block types that never contain prose */
+const ALWAYS_SKIPPED_BLOCKS = new Set<MarkdownBlockType>([
+	MarkdownBlockType.CODE,
+	MarkdownBlockType.FRONTMATTER,
+	MarkdownBlockType.TABLE,
+	MarkdownBlockType.MATH,
+	MarkdownBlockType.HTML,
+]);
+
+/** Callouts are blockquotes whose first line starts with `[!type]` */
+const CALLOUT_HEADER_REGEX = /^\s*>\s*\[!/;
+
+/** A line that starts a new list item, possibly inside a blockquote */
+const LIST_ITEM_START_REGEX = /^[\s>]*(?:[-*+]|\d+[.)])\s/;
+
+/** Limit on how far a paragraph is followed beyond the requested range */
+const MAX_PARAGRAPH_LINES = 200;
+
+/**
+ * Collects the prose paragraphs overlapping `from`-`to`, with non-prose
+ * tokens masked so that offsets into the document are preserved.
+ * The range is widened to whole paragraphs, so a sentence that starts above
+ * the range is still analyzed in full. Lines belonging to excluded block
+ * types are omitted entirely.
+ * @param tree A syntax tree to use instead of the state's current one,
+ * e.g. a fully parsed tree from `ensureSyntaxTree`
+ */
+export function collectProseBlocks(
+	state: EditorState,
+	from: number,
+	to: number,
+	settings: MusicalTextSettings,
+	tree: Tree = syntaxTree(state),
+): ProseBlock[] {
+	const doc = state.doc;
+	const firstLine = expandToParagraph(state, doc.lineAt(from).number, -1);
+	const lastLine = expandToParagraph(state, doc.lineAt(to).number, 1);
+
+	const lineTypes = new Map<number, Set<MarkdownBlockType>>();
+	const lineMasks = new Map<number, MaskedRange[]>();
+
+	const forEachLine = (
+		nodeFrom: number,
+		nodeTo: number,
+		callback: (number: number) => void,
+	) => {
+		const startNumber = doc.lineAt(nodeFrom).number;
+		const endNumber = doc.lineAt(Math.max(nodeFrom, nodeTo - 1)).number;
+		for (let number = startNumber; number <= endNumber; number++) {
+			callback(number);
+		}
+	};
+
+	tree.iterate({
+		from: firstLine.from,
+		to: lastLine.to,
+		enter: (node) => {
+			const classes = node.name.split("_");
+
+			const blockType = classifyBlock(classes);
+			if (blockType) {
+				forEachLine(node.from, node.to, (number) => {
+					let types = lineTypes.get(number);
+					if (!types) {
+						types = new Set();
+						lineTypes.set(number, types);
+					}
+					types.add(blockType);
+				});
+			}
+
+			const kind = classifyMask(classes);
+			if (kind !== null && node.from < node.to) {
+				const mask = { from: node.from, to: node.to, kind };
+				forEachLine(node.from, node.to, (number) => {
+					const masks = lineMasks.get(number) ?? [];
+					masks.push(mask);
+					lineMasks.set(number, masks);
+				});
+			}
+		},
+	});
+
+	const blocks: ProseBlock[] = [];
+	let inCallout = isInsideCallout(state, firstLine.number);
+	let previousWasQuote = false;
+	// The paragraph being built and the kind of line it is made of
+	let current: ProseBlock | null = null;
+	let currentKind = "";
+
+	for (let number = firstLine.number; number <= lastLine.number; number++) {
+		const line = doc.line(number);
+		const types = lineTypes.get(number) ?? new Set<MarkdownBlockType>();
+
+		const isQuote = types.has(MarkdownBlockType.BLOCKQUOTE);
+		const isCalloutHeader = isQuote && CALLOUT_HEADER_REGEX.test(line.text);
+		if (isQuote) {
+			if (!previousWasQuote && number > firstLine.number) {
+				inCallout = isCalloutHeader;
+			}
+			if (inCallout) {
+				types.delete(MarkdownBlockType.BLOCKQUOTE);
+				types.add(MarkdownBlockType.CALLOUT);
+			}
+		}
+		previousWasQuote = isQuote;
+
+		if (!isProseLine(types, settings) || line.text.trim().length === 0) {
+			current = null;
+			continue;
+		}
+
+		const text = maskLine(
+			line.text,
+			line.from,
+			lineMasks.get(number) ?? [],
+		);
+		const kind = Array.from(types).sort().join(",");
+
+		// Headings, callout titles and list items always start a new
+		// paragraph, as does a change of block type (e.g. leaving a quote).
+		const startsParagraph =
+			!current ||
+			kind !== currentKind ||
+			types.has(MarkdownBlockType.HEADING) ||
+			isCalloutHeader ||
+			LIST_ITEM_START_REGEX.test(line.text);
+
+		if (startsParagraph) {
+			current = { from: line.from, text };
+			blocks.push(current);
+		} else if (current) {
+			current.text += doc.sliceString(
+				current.from + current.text.length,
+				line.from,
+			);
+			current.text += text;
+		}
+		currentKind = kind;
+
+		// Headings and callout titles never continue onto the next line.
+		if (types.has(MarkdownBlockType.HEADING) || isCalloutHeader) {
+			current = null;
+		}
+	}
+
+	return blocks;
+}
+
+/**
+ * Widens `from`-`to` to the start and end of the paragraphs it touches.
+ * Paragraphs are bounded by blank lines, so decorations never cross the
+ * returned range's edges.
+ */
+export function getParagraphRange(
+	state: EditorState,
+	from: number,
+	to: number,
+): { from: number; to: number } {
+	const doc = state.doc;
+	return {
+		from: expandToParagraph(state, doc.lineAt(from).number, -1).from,
+		to: expandToParagraph(state, doc.lineAt(to).number, 1).to,
+	};
+}
+
+/**
+ * Walks from a line in `direction` (-1 up, 1 down) to the last line of its
+ * paragraph, stopping at blank lines
+ */
+function expandToParagraph(
+	state: EditorState,
+	lineNumber: number,
+	direction: -1 | 1,
+) {
+	const doc = state.doc;
+	let number = lineNumber;
+	for (let steps = 0; steps < MAX_PARAGRAPH_LINES; steps++) {
+		const next = number + direction;
+		if (next < 1 || next > doc.lines) break;
+		if (doc.line(next).text.trim().length === 0) break;
+		number = next;
+	}
+	return doc.line(number);
+}
+
+/** Maps a token's classes to the block type of the line it is on */
+function classifyBlock(classes: string[]): MarkdownBlockType | null {
+	const has = (predicate: (cls: string) => boolean) =>
+		classes.some(predicate);
+
+	if (
+		has(
+			(cls) =>
+				cls.startsWith("HyperMD-codeblock") ||
+				cls === "hmd-codeblock" ||
+				cls.startsWith("formatting-code-block"),
+		)
+	) {
+		return MarkdownBlockType.CODE;
+	}
+	if (
+		has(
+			(cls) =>
+				cls === "hmd-frontmatter" ||
+				cls.startsWith("HyperMD-frontmatter"),
+		)
+	) {
+		return MarkdownBlockType.FRONTMATTER;
+	}
+	if (
+		has(
+			(cls) =>
+				cls.startsWith("HyperMD-table") || cls === "hmd-table-sep",
+		)
+	) {
+		return MarkdownBlockType.TABLE;
+	}
+	if (has((cls) => cls === "math-block" || cls === "formatting-math-begin")) {
+		return MarkdownBlockType.MATH;
+	}
+	if (has((cls) => cls.startsWith("hmd-html") || cls === "HyperMD-html")) {
+		return MarkdownBlockType.HTML;
+	}
+	if (has((cls) => cls.startsWith("HyperMD-header") || cls === "header")) {
+		return MarkdownBlockType.HEADING;
+	}
+	if (has((cls) => cls.startsWith("HyperMD-quote") || cls === "quote")) {
+		return MarkdownBlockType.BLOCKQUOTE;
+	}
+	if (
+		has(
+			(cls) =>
+				cls === "HyperMD-list-line" ||
+				cls.startsWith("formatting-list"),
+		)
+	) {
+		return MarkdownBlockType.LIST_ITEM;
+	}
+	return null;
+}
+
+/** Decides whether a token inside a prose line is hidden from analysis */
+function classifyMask(classes: string[]): MaskKind | null {
+	if (classes.includes("inline-code")) {
+		return MaskKind.Word;
+	}
+	if (
+		classes.some(
+			(cls) =>
+				cls === "url" ||
+				cls === "math" ||
+				cls === "comment" ||
+				cls === "tag" ||
+				cls === "hashtag" ||
+				cls.startsWith("hmd-html") ||
+				cls.startsWith("formatting"),
+		)
+	) {
+		return MaskKind.Blank;
+	}
+	return null;
+}
+
+/** Checks whether a line with the given block types should be analyzed */
+function isProseLine(
+	types: Set<MarkdownBlockType>,
+	settings: MusicalTextSettings,
+): boolean {
+	for (const type of types) {
+		if (ALWAYS_SKIPPED_BLOCKS.has(type)) return false;
+	}
+	if (types.has(MarkdownBlockType.HEADING) && !settings.includeHeadings) {
+		return false;
+	}
+	if (types.has(MarkdownBlockType.LIST_ITEM) && !settings.includeListItems) {
+		return false;
+	}
+	if (
+		types.has(MarkdownBlockType.BLOCKQUOTE) &&
+		!settings.includeBlockquotes
+	) {
+		return false;
+	}
+	if (types.has(MarkdownBlockType.CALLOUT) && !settings.includeCallouts) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Determines whether a line continues a callout that started above it,
+ * by walking back to the first line of its blockquote.
+ */
+function isInsideCallout(state: EditorState, lineNumber: number): boolean {
+	let number = lineNumber;
+	while (number > 1 && /^\s*>/.test(state.doc.line(number - 1).text)) {
+		number--;
+	}
+	return CALLOUT_HEADER_REGEX.test(state.doc.line(number).text);
+}
+
+/** Replaces masked tokens in a line, keeping its length unchanged */
+function maskLine(
+	text: string,
+	lineFrom: number,
+	masks: MaskedRange[],
+): string {
+	const lineTo = lineFrom + text.length;
+	let masked = text;
+
+	for (const mask of masks) {
+		if (mask.to <= lineFrom || mask.from >= lineTo) continue;
+		const start = Math.max(mask.from, lineFrom) - lineFrom;
+		const end = Math.min(mask.to, lineTo) - lineFrom;
+		const replacement =
+			mask.kind === MaskKind.Word
+				? "x".repeat(end - start)
+				: " ".repeat(end - start);
+		masked = masked.slice(0, start) + replacement + masked.slice(end);
+	}
+
+	return masked;
+}
@@ -0,0 +1,139 @@
+/**
+ * Registry of marking styles
+ *
+ * Each style turns a length bucket's colors into CSS declarations, for the
+ * sentences of that bucket or for the lines they mostly fill. Adding a
+ * style means adding an enum value and an entry here; the stylesheet,
+ * decorations and settings all read from the registry.
+ */
+
+import {
+	MarkingStyleDefinition,
+	MusicalTextSettings,
+	SentenceMarkingStyle,
+} from "./types";
+
+/** Underline of the given line style in the bucket's color */
+function underline(
+	name: string,
+	line: "solid" | "wavy" | "dotted" | "dashed",
+): MarkingStyleDefinition {
+	return {
+		name,
+		colorRole: "mark",
+		sentence: ({ color }) => `
+			text-decoration: underline ${line};
+			text-decoration-color: ${color};
+			text-decoration-thickness: 2px;
+			text-underline-offset: ${line === "wavy" ? 3 : 2}px;
+		`,
+	};
+}
+
+export const MARKING_STYLES: Record<
+	SentenceMarkingStyle,
+	MarkingStyleDefinition
+> = {
+	[SentenceMarkingStyle.HIGHLIGHTING]: {
+		name: "Highlighting",
+		colorRole: "background",
+		sentence: ({ color, textColor }) => `
+			background-color: ${color};
+			color: ${textColor};
+			border-radius: 3px;
+			padding: 1px 2px;
+		`,
+	},
+	[SentenceMarkingStyle.TEXT_COLOR]: {
+		name: "Text color",
+		colorRole: "text",
+		sentence: ({ color }) => `color: ${color};`,
+	},
+	[SentenceMarkingStyle.COLOR_UNDERLINING]: underline(
+		"Color underlining",
+		"solid",
+	),
+	[SentenceMarkingStyle.WAVY_UNDERLINE]: underline("Wavy underline", "wavy"),
+	[SentenceMarkingStyle.DOTTED_UNDERLINE]: underline(
+		"Dotted underline",
+		"dotted",
+	),
+	[SentenceMarkingStyle.DASHED_UNDERLINE]: underline(
+		"Dashed underline",
+		"dashed",
+	),
+	[SentenceMarkingStyle.GUTTER_BAR]: {
+		name: "Gutter bar",
+		colorRole: "mark",
+		// A background image rather than a border, so text does not shift
+		// and the monotony marker's shadow can still be drawn over it.
+		line: ({ color }) => `
+			background-image: linear-gradient(
+				to right,
+				${color} 3px,
+				transparent 3px
+			);
+		`,
+	},
+	[SentenceMarkingStyle.OPACITY_FADING]: {
+		name: "Opacity fading",
+		colorRole: null,
+		// Short sentences get a faint wash, long ones a strong one.
+		sentence: ({ color, level }) => `
+			background-color: color-mix(
+				in srgb,
+				${color} ${Math.round(15 + 55 * level)}%,
+				transparent
+			);
+			border-radius: 3px;
+		`,
+	},
+	[SentenceMarkingStyle.FONT_WEIGHT]: {
+		name: "Font weight",
+		colorRole: null,
+		// From light (300) for the shortest bucket to extra bold (800).
+		sentence: ({ level }) =>
+			`font-weight: ${300 + Math.round(level * 5) * 100};`,
+	},
+};
+
+/** Names of the marking styles, keyed by style, for dropdowns */
+export function getMarkingStyleNames(): Record<SentenceMarkingStyle, string> {
+	const names = {} as Record<SentenceMarkingStyle, string>;
+	for (const style of Object.values(SentenceMarkingStyle)) {
+		names[style] = MARKING_STYLES[style].name;
+	}
+	return names;
+}
+
+/** Whether a value names a marking style */
+export function isMarkingStyle(value: unknown): value is SentenceMarkingStyle {
+	return Object.values(SentenceMarkingStyle).includes(
+		value as SentenceMarkingStyle,
+	);
+}
+
+/**
+ * The styles sentences are marked with: the main one, then the one combined
+ * with it, whose declarations win where both set the same property
+ */
+export function getActiveMarkingStyles(
+	settings: MusicalTextSettings,
+): MarkingStyleDefinition[] {
+	const styles = [MARKING_STYLES[settings.markingStyle]];
+	const combined = settings.combinedMarkingStyle;
+	if (combined && combined !== settings.markingStyle) {
+		styles.push(MARKING_STYLES[combined]);
+	}
+	return styles.filter(Boolean);
+}
+
+/** Whether any active style marks whole lines */
+export function marksLines(settings: MusicalTextSettings): boolean {
+	return getActiveMarkingStyles(settings).some((style) => style.line);
+}
+
+/** Class of the lines whose longest sentence has the length class given */
+export function getLineClass(className: string): string {
+	return `${className}-line`;
+}
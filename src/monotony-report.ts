@@ -0,0 +1,106 @@
+/**
+ * Command palette style list of the monotonous runs in a note
+ */
+
+import { App, SuggestModal } from "obsidian";
+import { EditorView } from "@codemirror/view";
+import { MonotonyRun, MusicalTextSettings } from "./types";
+import { getLengthBuckets, getMetricUnit } from "./sentence-detection";
+
+/** Characters of a run's first sentence shown as a preview */
+const PREVIEW_LENGTH = 80;
+
+/** A run with the text shown for it in the report */
+interface RunReportItem {
+	run: MonotonyRun;
+	summary: string;
+	location: string;
+	preview: string;
+}
+
+/**
+ * Lists monotonous runs; choosing one selects it in the editor.
+ * Typing filters the runs by their description or text.
+ */
+export class MonotonyReportModal extends SuggestModal<RunReportItem> {
+	private items: RunReportItem[];
+
+	constructor(
+		app: App,
+		private cm: EditorView,
+		runs: MonotonyRun[],
+		settings: MusicalTextSettings,
+	) {
+		super(app);
+		this.setPlaceholder(
+			`${runs.length} monotonous ${
+				runs.length === 1 ? "run" : "runs"
+			} — type to filter`,
+		);
+		this.items = runs.map((run) => describeRun(cm, run, settings));
+	}
+
+	getSuggestions(query: string): RunReportItem[] {
+		const needle = query.toLowerCase();
+		return this.items.filter((item) =>
+			`${item.summary} ${item.location} ${item.preview}`
+				.toLowerCase()
+				.includes(needle),
+		);
+	}
+
+	renderSuggestion(item: RunReportItem, el: HTMLElement) {
+		el.createDiv({ text: item.summary });
+		el.createEl("small", {
+			cls: "musical-text-run-preview",
+			text: `${item.location} · ${item.preview}`,
+		});
+	}
+
+	onChooseSuggestion(item: RunReportItem) {
+		this.cm.dispatch({
+			selection: { anchor: item.run.from, head: item.run.to },
+			effects: EditorView.scrollIntoView(item.run.from, { y: "center" }),
+		});
+		this.cm.focus();
+	}
+}
+
+/** Summarizes a run, e.g. "5 medium sentences (8–11 words)" */
+function describeRun(
+	cm: EditorView,
+	run: MonotonyRun,
+	settings: MusicalTextSettings,
+): RunReportItem {
+	const lengths = run.sentences.map((sentence) => sentence.length);
+	const min = Math.min(...lengths);
+	const max = Math.max(...lengths);
+	const unit = getMetricUnit(settings.lengthMetric);
+	const range = min === max ? `${min} ${unit}` : `${min}–${max} ${unit}`;
+
+	const classNames = new Set(run.sentences.map((s) => s.className));
+	const bucket =
+		classNames.size === 1
+			? getLengthBuckets(settings).find((b) => classNames.has(b.className))
+			: undefined;
+	const kind = bucket ? `${bucket.name.toLowerCase()} sentences` : "sentences";
+
+	const doc = cm.state.doc;
+	const firstLine = doc.lineAt(run.from).number;
+	const lastLine = doc.lineAt(run.to).number;
+	const first = run.sentences[0];
+	let preview = doc.sliceString(first.from, first.to).replace(/\s+/g, " ");
+	if (preview.length > PREVIEW_LENGTH) {
+		preview = preview.slice(0, PREVIEW_LENGTH - 1) + "…";
+	}
+
+	return {
+		run,
+		summary: `${run.sentences.length} ${kind} in a row (${range})`,
+		location:
+			firstLine === lastLine
+				? `Line ${firstLine}`
+				: `Lines ${firstLine}–${lastLine}`,
+		preview,
+	};
+}
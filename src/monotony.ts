@@ -0,0 +1,91 @@
+/**
+ * Detection of monotonous runs: consecutive sentences of similar length
+ *
+ * A sentence continues a run when it falls in the same length band as the
+ * run's first sentence, or is within `monotonyTolerance` of its length. Runs
+ * are found within a paragraph, since a paragraph break already changes
+ * the rhythm.
+ */
+
+import { EditorState, Range, Text } from "@codemirror/state";
+import { Decoration } from "@codemirror/view";
+import { MonotonyRun, MusicalTextSettings, SentenceRange } from "./types";
+import { analyzeDocument } from "./rhythm-analysis";
+
+/** Class added to every editor line a run touches */
+export const MONOTONY_LINE_CLASS = "musical-text-monotony";
+
+const monotonyLine = Decoration.line({ class: MONOTONY_LINE_CLASS });
+
+/** Finds runs of at least `monotonyRunLength` similar sentences */
+export function findMonotonousRuns(
+	sentences: SentenceRange[],
+	settings: MusicalTextSettings,
+): MonotonyRun[] {
+	const runs: MonotonyRun[] = [];
+	const minLength = Math.max(2, settings.monotonyRunLength);
+
+	let start = 0;
+	while (start < sentences.length) {
+		const first = sentences[start];
+		let end = start + 1;
+		while (
+			end < sentences.length &&
+			isSimilar(first, sentences[end], settings.monotonyTolerance)
+		) {
+			end++;
+		}
+
+		if (end - start >= minLength) {
+			const run = sentences.slice(start, end);
+			runs.push({
+				from: run[0].from,
+				to: run[run.length - 1].to,
+				sentences: run,
+			});
+		}
+		start = end;
+	}
+
+	return runs;
+}
+
+/** Finds the monotonous runs of every paragraph in a document */
+export function findDocumentRuns(
+	state: EditorState,
+	settings: MusicalTextSettings,
+): MonotonyRun[] {
+	return analyzeDocument(state, settings).flatMap((paragraph) =>
+		findMonotonousRuns(paragraph.sentences, settings),
+	);
+}
+
+function isSimilar(
+	first: SentenceRange,
+	sentence: SentenceRange,
+	tolerance: number,
+): boolean {
+	return (
+		sentence.className === first.className ||
+		Math.abs(sentence.length - first.length) <= tolerance
+	);
+}
+
+/**
+ * Creates line decorations for every line touched by the given runs, shifted
+ * by `offset`. Each line is decorated once even if several runs touch it.
+ */
+export function decorateRuns(
+	doc: Text,
+	runs: MonotonyRun[],
+	offset = 0,
+): Range<Decoration>[] {
+	const lineStarts = new Set<number>();
+	for (const run of runs) {
+		const last = doc.lineAt(run.to + offset).number;
+		for (let n = doc.lineAt(run.from + offset).number; n <= last; n++) {
+			lineStarts.add(doc.line(n).from);
+		}
+	}
+	return [...lineStarts].map((from) => monotonyLine.range(from));
+}
@@ -0,0 +1,194 @@
+/**
+ * Headless analysis of notes that are not open in an editor
+ *
+ * Instead of the editor's syntax tree, the sections Obsidian's metadata
+ * cache records for a note decide which parts are prose, and inline
+ * Markdown is stripped with patterns. Nothing here creates decorations.
+ */
+
+import { App, SectionCache, TFile } from "obsidian";
+import {
+	MusicalTextSettings,
+	NoteRhythmSummary,
+	SentenceRange,
+} from "./types";
+import { findSentences, getLengthBuckets } from "./sentence-detection";
+import { findMonotonousRuns } from "./monotony";
+import { mean, variance } from "./rhythm-analysis";
+
+/** Notes analyzed between yields to the interface */
+const NOTES_PER_BATCH = 20;
+
+/**
+ * Section types that hold prose, with the setting that includes them, or
+ * null if they are always analyzed
+ */
+const PROSE_SECTIONS: Record<
+	string,
+	| "includeHeadings"
+	| "includeListItems"
+	| "includeBlockquotes"
+	| "includeCallouts"
+	| null
+> = {
+	paragraph: null,
+	heading: "includeHeadings",
+	list: "includeListItems",
+	blockquote: "includeBlockquotes",
+	callout: "includeCallouts",
+};
+
+/** Inline Markdown replaced before analysis, in order */
+const INLINE_REPLACEMENTS: [RegExp, string][] = [
+	// Comments, embeds and images
+	[/%%[\s\S]*?%%|<!--[\s\S]*?-->/g, " "],
+	[/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, " "],
+	// Inline code counts as a word, like in the editor
+	[/`[^`\n]+`/g, "x"],
+	[/\$[^$\n]+\$/g, " "],
+	// Links keep only the text they show
+	[/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, "$1"],
+	[/\[([^\]]*)\]\([^)]*\)/g, "$1"],
+	// Footnote references, block ids, tags and HTML tags
+	[/\[\^[^\]]*\]|\s\^[\w-]+$/gm, ""],
+	[/(^|\s)#[\p{L}\p{N}_/-]+/gu, "$1"],
+	[/<[^>\n]+>/g, " "],
+	// Emphasis, highlight and strikethrough markers
+	[/\*+|==|~~|(?<![\p{L}\p{N}])_+|_+(?![\p{L}\p{N}])/gu, ""],
+];
+
+/**
+ * Extracts the prose paragraphs of a note's text
+ * @param sections The note's sections from the metadata cache
+ */
+export function extractProse(
+	text: string,
+	sections: SectionCache[],
+	settings: MusicalTextSettings,
+): string[] {
+	const paragraphs: string[] = [];
+	for (const section of sections) {
+		if (!(section.type in PROSE_SECTIONS)) continue;
+		const setting = PROSE_SECTIONS[section.type];
+		if (setting && !settings[setting]) continue;
+
+		let prose = text.slice(
+			section.position.start.offset,
+			section.position.end.offset,
+		);
+		if (section.type === "heading") {
+			prose = prose.replace(/^#+\s*/, "");
+		} else if (
+			section.type === "blockquote" ||
+			section.type === "callout"
+		) {
+			prose = prose.replace(/^[ \t]*(?:>[ \t]?)+/gm, "");
+			// A callout's title is a paragraph of its own.
+			if (section.type === "callout") {
+				prose = prose.replace(/^\[![^\]]*\][+-]?[ \t]*(.*)/, "$1\n");
+			}
+		}
+		for (const [pattern, replacement] of INLINE_REPLACEMENTS) {
+			prose = prose.replace(pattern, replacement);
+		}
+		paragraphs.push(prose);
+	}
+	return paragraphs;
+}
+
+/**
+ * Finds the sentences of each prose paragraph of a note. Sentence offsets
+ * are relative to the extracted paragraph.
+ */
+export function analyzeNoteText(
+	text: string,
+	sections: SectionCache[],
+	settings: MusicalTextSettings,
+): SentenceRange[][] {
+	return extractProse(text, sections, settings)
+		.map((paragraph) => findSentences(paragraph, settings))
+		.filter((sentences) => sentences.length > 0);
+}
+
+/** Summarizes the sentence lengths of a note's paragraphs */
+export function summarizeNote(
+	path: string,
+	paragraphs: SentenceRange[][],
+	settings: MusicalTextSettings,
+): NoteRhythmSummary {
+	const sentences = paragraphs.flat();
+	const lengths = sentences.map((sentence) => sentence.length);
+	const count = sentences.length;
+	const inRuns = paragraphs
+		.flatMap((paragraph) => findMonotonousRuns(paragraph, settings))
+		.reduce((total, run) => total + run.sentences.length, 0);
+
+	return {
+		path,
+		sentenceCount: count,
+		mean: mean(lengths),
+		variance: variance(lengths),
+		bucketShares: getLengthBuckets(settings).map((bucket) =>
+			count === 0
+				? 0
+				: sentences.filter(
+						(sentence) => sentence.className === bucket.className,
+					).length / count,
+		),
+		monotonyScore: count === 0 ? 0 : Math.round((100 * inRuns) / count),
+	};
+}
+
+/**
+ * Orders summaries so the flattest prose comes first: the highest monotony
+ * score, then the least spread relative to the mean
+ */
+export function sortByFlatness(
+	summaries: NoteRhythmSummary[],
+): NoteRhythmSummary[] {
+	const spread = (summary: NoteRhythmSummary) =>
+		summary.mean > 0 ? Math.sqrt(summary.variance) / summary.mean : 0;
+	return [...summaries].sort(
+		(a, b) => b.monotonyScore - a.monotonyScore || spread(a) - spread(b),
+	);
+}
+
+/** Reports progress of a long analysis and whether it should stop */
+export interface AnalysisProgress {
+	onProgress(done: number, total: number): void;
+	isCancelled(): boolean;
+}
+
+/**
+ * Analyzes notes one after another, yielding to the interface between
+ * batches so progress can be shown and cancellation noticed
+ * @param getSettings The settings to analyze a note with
+ * @returns A summary of every note with prose, or null if cancelled
+ */
+export async function analyzeNotes(
+	app: App,
+	files: TFile[],
+	getSettings: (file: TFile) => MusicalTextSettings,
+	progress: AnalysisProgress,
+): Promise<NoteRhythmSummary[] | null> {
+	const summaries: NoteRhythmSummary[] = [];
+	for (let i = 0; i < files.length; i++) {
+		if (progress.isCancelled()) return null;
+		const file = files[i];
+		const sections = app.metadataCache.getFileCache(file)?.sections;
+		if (sections) {
+			const settings = getSettings(file);
+			const text = await app.vault.cachedRead(file);
+			const paragraphs = analyzeNoteText(text, sections, settings);
+			if (paragraphs.length > 0) {
+				summaries.push(summarizeNote(file.path, paragraphs, settings));
+			}
+		}
+		if ((i + 1) % NOTES_PER_BATCH === 0) {
+			progress.onProgress(i + 1, files.length);
+			await sleep(0);
+		}
+	}
+	progress.onProgress(files.length, files.length);
+	return progress.isCancelled() ? null : summaries;
+}
@@ -0,0 +1,139 @@
+/**
+ * Per-note settings derived from a note's frontmatter
+ *
+ * Besides `lang`, a note can carry a `musical-text` block:
+ *
+ * ```yaml
+ * musical-text:
+ *   thresholds: [5, 12, 20]
+ *   markingStyle: [textColor, wavyUnderline]
+ *   colorPalette: nord
+ *   highlighting: true
+ * ```
+ */
+
+import { MusicalTextSettings, SegmentationMode } from "./types";
+import { normalizeBands } from "./settings";
+import { setBandLimit } from "./sentence-detection";
+import { samplePalette } from "./color-utils";
+import { getPalette } from "./palette-library";
+import { isMarkingStyle } from "./marking-styles";
+
+/** Frontmatter key of the per-note settings block */
+export const NOTE_SETTINGS_KEY = "musical-text";
+
+/**
+ * Threshold names of earlier versions, as used by the block: the first length
+ * of the second band, the last length of the second band and the last length
+ * of the third band.
+ */
+const LEGACY_THRESHOLD_KEYS = [
+	"shortThreshold",
+	"mediumThreshold",
+	"longThreshold",
+];
+
+/**
+ * Returns the settings to analyze a note with.
+ * A `lang` frontmatter key (e.g. `lang: de`) switches the note to
+ * locale-aware segmentation in that language, and a `musical-text` block
+ * overrides band limits, marking style and color palette.
+ * @param settings The global plugin settings
+ * @param frontmatter The note's parsed frontmatter, if any
+ */
+export function getNoteSettings(
+	settings: MusicalTextSettings,
+	frontmatter: Record<string, unknown> | null | undefined,
+): MusicalTextSettings {
+	let noteSettings = settings;
+
+	const lang = frontmatter?.lang;
+	if (typeof lang === "string" && lang.trim().length > 0) {
+		noteSettings = {
+			...noteSettings,
+			segmentationMode: SegmentationMode.LOCALE,
+			locale: lang.trim(),
+		};
+	}
+
+	const block = getNoteSettingsBlock(frontmatter);
+	if (!block) return noteSettings;
+
+	const thresholds = parseThresholds(block);
+	const palette =
+		typeof block.colorPalette === "string"
+			? getPalette(settings, block.colorPalette)
+			: undefined;
+	if (thresholds.some((limit) => limit !== undefined) || palette) {
+		const bands = noteSettings.bands.map((band) => ({ ...band }));
+		thresholds.forEach((limit, index) => {
+			if (limit !== undefined && index < bands.length - 1) {
+				setBandLimit(bands[index], noteSettings.lengthMetric, limit);
+			}
+		});
+		if (palette) {
+			const colors = samplePalette(palette.colors, bands.length);
+			bands.forEach((band, index) => (band.color = colors[index]));
+		}
+		noteSettings = {
+			...noteSettings,
+			colorPalette: palette
+				? (block.colorPalette as string)
+				: noteSettings.colorPalette,
+			bands: normalizeBands(bands),
+		};
+	}
+
+	// One style, or a list of two to combine
+	const markingStyles = [block.markingStyle].flat().slice(0, 2);
+	if (markingStyles.length > 0 && markingStyles.every(isMarkingStyle)) {
+		noteSettings = {
+			...noteSettings,
+			markingStyle: markingStyles[0],
+			combinedMarkingStyle: markingStyles[1] ?? null,
+		};
+	}
+
+	return noteSettings;
+}
+
+/**
+ * Whether a note asks for highlighting to be turned on or off when opened
+ * @returns The note's `highlighting` value, or undefined if it has none
+ */
+export function getNoteHighlighting(
+	frontmatter: Record<string, unknown> | null | undefined,
+): boolean | undefined {
+	const highlighting = getNoteSettingsBlock(frontmatter)?.highlighting;
+	return typeof highlighting === "boolean" ? highlighting : undefined;
+}
+
+function getNoteSettingsBlock(
+	frontmatter: Record<string, unknown> | null | undefined,
+): Record<string, unknown> | null {
+	const block = frontmatter?.[NOTE_SETTINGS_KEY];
+	return block && typeof block === "object" && !Array.isArray(block)
+		? (block as Record<string, unknown>)
+		: null;
+}
+
+/**
+ * Reads band limits from a `thresholds` list, or from the threshold names of
+ * earlier versions
+ * @returns The limit of each band by index, undefined where not overridden
+ */
+function parseThresholds(
+	block: Record<string, unknown>,
+): (number | undefined)[] {
+	const asLimit = (value: unknown) =>
+		typeof value === "number" && value >= 1 ? Math.floor(value) : undefined;
+
+	if (Array.isArray(block.thresholds)) {
+		return block.thresholds.map(asLimit);
+	}
+	return LEGACY_THRESHOLD_KEYS.map((key, index) => {
+		const limit = asLimit(block[key]);
+		// The short threshold was the first length of the short band.
+		return limit !== undefined && index === 0 ? limit - 1 : limit;
+	});
+}
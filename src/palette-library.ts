@@ -0,0 +1,204 @@
+/**
+ * User palettes: saved next to the built-in ones, shared as JSON files
+ *
+ * A palette file holds one palette or a list of them:
+ *
+ * ```json
+ * { "name": "House style", "colors": ["#AF3029", "#BC5215", "#66800B"] }
+ * ```
+ */
+
+import {
+	App,
+	FuzzySuggestModal,
+	Modal,
+	Setting,
+	TFile,
+	normalizePath,
+} from "obsidian";
+import { ColorPalette, MusicalTextSettings } from "./types";
+import { COLOR_PALETTES } from "./settings";
+import { toHexColor } from "./color-parsing";
+
+/** Prefix of the keys of user palettes, keeping them apart from built-ins */
+export const CUSTOM_PALETTE_PREFIX = "custom:";
+
+/** Built-in palettes followed by the user's own */
+export function getPalettes(
+	settings: MusicalTextSettings,
+): Record<string, ColorPalette> {
+	return { ...COLOR_PALETTES, ...settings.customPalettes };
+}
+
+/**
+ * Finds a palette by key, or a user palette by name (case-insensitive)
+ * so that frontmatter can refer to it as it is shown in settings
+ */
+export function getPalette(
+	settings: MusicalTextSettings,
+	keyOrName: string,
+): ColorPalette | undefined {
+	const palettes = getPalettes(settings);
+	if (palettes[keyOrName]) return palettes[keyOrName];
+	const name = keyOrName.toLowerCase();
+	return Object.values(settings.customPalettes).find(
+		(palette) => palette.name.toLowerCase() === name,
+	);
+}
+
+export function isCustomPalette(key: string): boolean {
+	return key.startsWith(CUSTOM_PALETTE_PREFIX);
+}
+
+/**
+ * Adds a palette to the user's library under a key derived from its name
+ * @returns The new palette's key
+ */
+export function addCustomPalette(
+	settings: MusicalTextSettings,
+	palette: ColorPalette,
+): string {
+	const slug =
+		palette.name
+			.toLowerCase()
+			.replace(/[^\p{L}\p{N}]+/gu, "-")
+			.replace(/^-|-$/g, "") || "palette";
+	let key = `${CUSTOM_PALETTE_PREFIX}${slug}`;
+	for (let n = 2; settings.customPalettes[key]; n++) {
+		key = `${CUSTOM_PALETTE_PREFIX}${slug}-${n}`;
+	}
+	// Replace the record rather than writing into it, so that a record
+	// shared with other settings objects is never changed.
+	settings.customPalettes = {
+		...settings.customPalettes,
+		[key]: { name: palette.name, colors: [...palette.colors] },
+	};
+	return key;
+}
+
+/** Removes a palette from the user's library */
+export function removeCustomPalette(
+	settings: MusicalTextSettings,
+	key: string,
+) {
+	const palettes = { ...settings.customPalettes };
+	delete palettes[key];
+	settings.customPalettes = palettes;
+}
+
+/**
+ * Reads the palettes of a palette file
+ * @throws Error describing what is wrong with the file
+ */
+export function parsePaletteFile(text: string): ColorPalette[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("File is not valid JSON");
+	}
+
+	const entries = Array.isArray(data) ? data : [data];
+	if (entries.length === 0) throw new Error("File contains no palettes");
+	return entries.map((entry, index) => {
+		const { name, colors } = (entry ?? {}) as Record<string, unknown>;
+		const label = `Palette ${index + 1}`;
+		if (typeof name !== "string" || !name.trim()) {
+			throw new Error(`${label} has no name`);
+		}
+		// Color pickers need hex, so other CSS colors are converted.
+		const hexColors = Array.isArray(colors)
+			? colors.map((color) => toHexColor(String(color)))
+			: [];
+		if (hexColors.length === 0 || hexColors.includes(null)) {
+			throw new Error(`${label} needs a list of CSS colors`);
+		}
+		return { name: name.trim(), colors: hexColors as string[] };
+	});
+}
+
+/**
+ * Writes a palette to a JSON file at the root of the vault, replacing an
+ * earlier export of the same palette
+ * @returns The path of the file
+ */
+export async function exportPalette(
+	app: App,
+	palette: ColorPalette,
+): Promise<string> {
+	const fileName = palette.name.replace(/[\\/:*?"<>|#^[\]]/g, "").trim();
+	const path = normalizePath(`${fileName || "Palette"}.palette.json`);
+	const json = JSON.stringify(palette, null, "\t");
+
+	const existing = app.vault.getAbstractFileByPath(path);
+	if (existing instanceof TFile) {
+		await app.vault.modify(existing, json);
+	} else {
+		await app.vault.create(path, json);
+	}
+	return path;
+}
+
+/** Asks for a palette name */
+export class PaletteNameModal extends Modal {
+	constructor(
+		app: App,
+		private title: string,
+		private initialName: string,
+		private onSubmit: (name: string) => void,
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(this.title);
+
+		let name = this.initialName;
+		const submit = () => {
+			if (!name.trim()) return;
+			this.close();
+			this.onSubmit(name.trim());
+		};
+
+		new Setting(contentEl).setName("Name").addText((text) => {
+			text.setValue(name).onChange((value) => (name = value));
+			text.inputEl.addEventListener("keydown", (e) => {
+				if (e.key === "Enter") submit();
+			});
+			window.setTimeout(() => text.inputEl.select());
+		});
+		new Setting(contentEl).addButton((button) =>
+			button.setButtonText("Save").setCta().onClick(submit),
+		);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+/** Lets the user pick a JSON file from the vault to import palettes from */
+export class PaletteFileModal extends FuzzySuggestModal<TFile> {
+	constructor(
+		app: App,
+		private onChoose: (file: TFile) => void,
+	) {
+		super(app);
+		this.setPlaceholder("Choose a palette file to import");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault
+			.getFiles()
+			.filter((file) => file.extension === "json");
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
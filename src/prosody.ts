@@ -0,0 +1,201 @@
+/**
+ * Approximate English syllable counts and word stress
+ *
+ * These are heuristics: silent endings are dropped, vowel groups are
+ * counted, and words the rules get wrong are listed as exceptions. Stress
+ * follows common suffix and prefix patterns, with short function words
+ * unstressed. Good enough to hear the rhythm of a line, not a dictionary.
+ */
+
+/** Mark for a stressed syllable in a stress pattern */
+export const STRESSED_MARK = "/";
+
+/** Mark for an unstressed syllable in a stress pattern */
+export const UNSTRESSED_MARK = "˘";
+
+/** Words whose syllables the heuristic miscounts */
+export const DEFAULT_SYLLABLE_EXCEPTIONS: Record<string, number> = {
+	area: 3,
+	being: 2,
+	business: 2,
+	camera: 3,
+	chocolate: 3,
+	create: 2,
+	created: 3,
+	doing: 2,
+	every: 2,
+	evening: 2,
+	everything: 3,
+	everywhere: 3,
+	family: 3,
+	fire: 1,
+	going: 2,
+	hour: 1,
+	idea: 3,
+	interesting: 3,
+	lion: 2,
+	maybe: 2,
+	naturally: 3,
+	our: 1,
+	people: 2,
+	poem: 2,
+	poet: 2,
+	quiet: 2,
+	science: 2,
+	seeing: 2,
+	someone: 2,
+	something: 2,
+	sometimes: 2,
+	somewhere: 2,
+	vegetable: 4,
+	wednesday: 2,
+};
+
+/** Articles, pronouns, prepositions, conjunctions and auxiliaries */
+const FUNCTION_WORDS = new Set(
+	(
+		"a an the and but or nor so yet if as at by for from in into of on to " +
+		"with than that this these those i me my you your he him his she her " +
+		"it its we us our they them their who whom whose which am is are was " +
+		"were be been has have had do does did can could shall should will " +
+		"would may might must no there"
+	).split(" "),
+);
+
+/** Two-syllable words starting with these usually stress the second */
+const UNSTRESSED_PREFIX_REGEX =
+	/^(?:a|be|de|re|un|in|im|ex|con|com|dis|mis|pre|pro|for|per|sub|sur|trans|with)/;
+
+const WORD_REGEX = /[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)?/gu;
+/** Chinese and Japanese characters, each counted as a unit of length */
+export const CJK_CHARACTER_REGEX =
+	/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const VOWEL_GROUP_REGEX = /[aeiouyàáâäæèéêëìíîïòóôöœùúûü]+/g;
+
+/**
+ * Parses syllable exceptions, one `word: count` per line
+ * @returns Lowercase words mapped to their syllable counts
+ */
+export function parseSyllableExceptions(text: string): Record<string, number> {
+	const exceptions: Record<string, number> = {};
+	for (const line of text.split("\n")) {
+		const match = line.match(/^\s*([^\s:=]+)\s*[:=]\s*(\d+)\s*$/);
+		if (match) {
+			exceptions[match[1].toLowerCase()] = parseInt(match[2]);
+		}
+	}
+	return exceptions;
+}
+
+/** Formats syllable exceptions for the settings text area */
+export function formatSyllableExceptions(
+	exceptions: Record<string, number>,
+): string {
+	return Object.entries(exceptions)
+		.map(([word, count]) => `${word}: ${count}`)
+		.join("\n");
+}
+
+/**
+ * Counts the syllables of a single word
+ * @param exceptions Extra exceptions, checked before the built-in ones
+ */
+export function countWordSyllables(
+	word: string,
+	exceptions: Record<string, number> = {},
+): number {
+	const lower = word.toLowerCase().replace(/’/g, "'");
+	const known = exceptions[lower] ?? DEFAULT_SYLLABLE_EXCEPTIONS[lower];
+	if (known !== undefined) return known;
+
+	let stem = lower.replace(/'s$/, "").replace(/'/g, "");
+	if (stem.length <= 3) return 1;
+
+	stem = stripSilentEnding(stem)
+		.replace(/^y/, "")
+		// The silent e of a stem before a suffix: lovely, movement, careful
+		.replace(/([^aeiouy])e(ly|ment|ful|ness|less)$/, "$1$2");
+	let count = (stem.match(VOWEL_GROUP_REGEX) || []).length;
+	// Vowel pairs usually said as two syllables (li-on, vi-o-lin),
+	// except in endings like -tion, -cial and -gious.
+	count += (stem.match(/(?<![cgst])i[ao]|eo|uo/g) || []).length;
+
+	return Math.max(1, count);
+}
+
+/** Drops endings that add no syllable, e.g. the e of "make" or ed of "jumped" */
+function stripSilentEnding(word: string): string {
+	// Heard endings: boxes, wishes, table, wanted
+	if (/(?:[sxz]|[cs]h)es$/.test(word)) return word;
+	if (/[^aeiouy]le$/.test(word)) return word;
+	if (/[td]ed$/.test(word)) return word;
+
+	if (/[aeiouy](?:es|ed)$/.test(word)) return word.slice(0, -2);
+	return word.replace(/([^aeiouy])(?:es|ed|e)$/, "$1");
+}
+
+/**
+ * Counts the syllables of a sentence. Chinese and Japanese characters count
+ * one syllable each.
+ */
+export function countSyllables(
+	text: string,
+	exceptions: Record<string, number> = {},
+): number {
+	let count = (text.match(CJK_CHARACTER_REGEX) || []).length;
+	const words =
+		text.replace(CJK_CHARACTER_REGEX, " ").match(WORD_REGEX) || [];
+	for (const word of words) {
+		count += countWordSyllables(word, exceptions);
+	}
+	return count;
+}
+
+/**
+ * Guesses which syllables of a word are stressed
+ * @returns One entry per syllable, true where stressed
+ */
+export function getWordStress(
+	word: string,
+	exceptions: Record<string, number> = {},
+): boolean[] {
+	const lower = word.toLowerCase().replace(/’/g, "'");
+	const syllables = countWordSyllables(lower, exceptions);
+	if (syllables === 1) return [!FUNCTION_WORDS.has(lower)];
+
+	let primary = 0;
+	if (/(?:ee|eer|ese|ette|oon|ique)$/.test(lower)) {
+		primary = syllables - 1;
+	} else if (/(?:ity|ical|ify|ogy|graphy)$/.test(lower)) {
+		primary = syllables - 3;
+	} else if (/(?:tion|sion|cian|ic|ial|ious|ian)$/.test(lower)) {
+		primary = syllables - 2;
+	} else if (syllables === 2 && UNSTRESSED_PREFIX_REGEX.test(lower)) {
+		primary = 1;
+	}
+	primary = Math.max(0, Math.min(syllables - 1, primary));
+
+	// Longer words alternate, with secondary stress two syllables away.
+	return Array.from(
+		{ length: syllables },
+		(_, index) => Math.abs(index - primary) % 2 === 0,
+	);
+}
+
+/**
+ * Builds a stress pattern for a line of verse, one mark per syllable and a
+ * space between words, e.g. "˘ / ˘ /˘ / ˘ /" for "The woods are lovely, dark
+ * and deep".
+ */
+export function getStressPattern(
+	line: string,
+	exceptions: Record<string, number> = {},
+): string {
+	return (line.match(WORD_REGEX) || [])
+		.map((word) =>
+			getWordStress(word, exceptions)
+				.map((stressed) => (stressed ? STRESSED_MARK : UNSTRESSED_MARK))
+				.join(""),
+		)
+		.join(" ");
+}
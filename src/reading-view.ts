@@ -0,0 +1,204 @@
+/**
+ * Sentence highlighting for rendered Markdown (reading view and PDF export)
+ */
+
+import { ColorMode, MusicalTextSettings } from "./types";
+import {
+	findSentences,
+	getBandLimit,
+	getSentenceColorStyle,
+} from "./sentence-detection";
+import { getLineClass, marksLines } from "./marking-styles";
+
+/** Class added to a reading view container while its highlighting is on */
+export const READING_HIGHLIGHT_CLASS = "musical-text-reading";
+
+/** Rendered blocks whose text is analyzed as prose */
+const PROSE_BLOCK_SELECTOR = "p, li";
+
+/** Rendered headings, analyzed when headings are included */
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6";
+
+/**
+ * Containers whose blocks are left out unless their Markdown element type is
+ * included, like in the editor
+ */
+const EXCLUDABLE_CONTAINERS = [
+	{ selector: "li", setting: "includeListItems" },
+	{ selector: "blockquote", setting: "includeBlockquotes" },
+	{ selector: ".callout", setting: "includeCallouts" },
+] as const;
+
+/**
+ * Elements whose text is never part of a sentence. Nested lists and
+ * paragraphs are skipped here because they are analyzed as their own block.
+ */
+const SKIPPED_ELEMENT_SELECTOR =
+	"code, pre, .math, mjx-container, .internal-embed, .footnote-ref, ul, ol, p";
+
+/**
+ * Wraps every sentence inside rendered paragraphs, list items and callouts
+ * in a span carrying its length class (e.g. `sh-band-2`), skipping the
+ * Markdown element types the settings exclude. With a marking
+ * style that marks lines, each block is classed by its longest sentence.
+ * Spans are always added; their visibility is controlled by CSS scoped to
+ * {@link READING_HIGHLIGHT_CLASS} so toggling does not require a re-render.
+ */
+export function highlightRenderedSentences(
+	el: HTMLElement,
+	settings: MusicalTextSettings,
+): void {
+	const selector = settings.includeHeadings
+		? `${PROSE_BLOCK_SELECTOR}, ${HEADING_SELECTOR}`
+		: PROSE_BLOCK_SELECTOR;
+	const blocks = Array.from(el.querySelectorAll<HTMLElement>(selector));
+	if (el.matches(selector)) {
+		blocks.unshift(el);
+	}
+
+	const excluded = EXCLUDABLE_CONTAINERS.flatMap(({ selector, setting }) =>
+		settings[setting] ? [] : [selector],
+	).join(", ");
+	for (const block of blocks) {
+		if (excluded && block.closest(excluded)) continue;
+		wrapSentencesInBlock(block, settings);
+	}
+}
+
+/**
+ * Identifies the settings that change the rendered sentence spans, so that
+ * reading views are only re-rendered when one of them changes. Band colors
+ * only matter in gradient mode, where each span carries its own.
+ */
+export function getRenderKey(settings: MusicalTextSettings): string {
+	const gradient = settings.colorMode === ColorMode.GRADIENT;
+	return JSON.stringify([
+		settings.lengthMetric,
+		settings.syllableExceptions,
+		settings.segmentationMode,
+		settings.locale,
+		settings.cjkCharacterLength,
+		settings.abbreviations,
+		settings.dialogueTagMode,
+		settings.nestedQuoteMode,
+		settings.includeHeadings,
+		settings.includeListItems,
+		settings.includeBlockquotes,
+		settings.includeCallouts,
+		marksLines(settings),
+		settings.bands.map((band) => getBandLimit(band, settings.lengthMetric)),
+		settings.colorMode,
+		gradient
+			? [
+					settings.gradientInterpolation,
+					settings.gradientMaxLength,
+					settings.contrastLevel,
+					settings.bands.map((band) => band.color),
+				]
+			: null,
+	]);
+}
+
+/** Splits the text nodes of a single block into sentence spans */
+function wrapSentencesInBlock(
+	block: HTMLElement,
+	settings: MusicalTextSettings,
+): void {
+	const pieces = collectTextPieces(block);
+	if (pieces.length === 0) return;
+
+	const text = pieces.map((piece) => piece.text).join("");
+	const sentences = findSentences(text, settings);
+	if (sentences.length === 0) return;
+
+	if (marksLines(settings)) {
+		const longest = sentences.reduce((a, b) =>
+			b.to - b.from > a.to - a.from ? b : a,
+		);
+		block.addClass(getLineClass(longest.className));
+		const style = getSentenceColorStyle(longest.length, settings);
+		if (style) block.style.cssText += style;
+	}
+
+	let nodeStart = 0;
+	for (const { node, text: nodeText } of pieces) {
+		const nodeEnd = nodeStart + nodeText.length;
+		const overlapping = sentences.filter(
+			(sentence) => sentence.from < nodeEnd && sentence.to > nodeStart,
+		);
+
+		if (node && overlapping.length > 0) {
+			const fragment = document.createDocumentFragment();
+			let cursor = nodeStart;
+
+			for (const sentence of overlapping) {
+				const from = Math.max(sentence.from, nodeStart);
+				const to = Math.min(sentence.to, nodeEnd);
+				if (from > cursor) {
+					fragment.append(
+						nodeText.slice(cursor - nodeStart, from - nodeStart),
+					);
+				}
+				const style = getSentenceColorStyle(
+					sentence.length,
+					settings,
+				);
+				fragment.createSpan({
+					cls: sentence.className,
+					text: nodeText.slice(from - nodeStart, to - nodeStart),
+					attr: style ? { style } : undefined,
+				});
+				cursor = to;
+			}
+			if (cursor < nodeEnd) {
+				fragment.append(nodeText.slice(cursor - nodeStart));
+			}
+
+			node.replaceWith(fragment);
+		}
+
+		nodeStart = nodeEnd;
+	}
+}
+
+/**
+ * A text node of a block, or a line break (`<br>`, with no node) that
+ * separates the words on either side of it
+ */
+interface TextPiece {
+	node: Text | null;
+	text: string;
+}
+
+/** Collects the block's own text nodes and line breaks in document order */
+function collectTextPieces(block: HTMLElement): TextPiece[] {
+	const walker = document.createTreeWalker(
+		block,
+		NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT,
+		{
+			acceptNode(node) {
+				if (node instanceof HTMLBRElement) {
+					return NodeFilter.FILTER_ACCEPT;
+				}
+				if (node instanceof Element) {
+					return node !== block &&
+						node.matches(SKIPPED_ELEMENT_SELECTOR)
+						? NodeFilter.FILTER_REJECT
+						: NodeFilter.FILTER_SKIP;
+				}
+				return NodeFilter.FILTER_ACCEPT;
+			},
+		},
+	);
+
+	const pieces: TextPiece[] = [];
+	while (walker.nextNode()) {
+		const node = walker.currentNode;
+		pieces.push(
+			node instanceof Text
+				? { node, text: node.data }
+				: { node: null, text: "\n" },
+		);
+	}
+	return pieces;
+}
@@ -0,0 +1,109 @@
+/**
+ * Whole-document rhythm analysis and statistics
+ *
+ * Unlike the editor highlighter, which only analyzes what is on screen,
+ * these functions analyze every prose paragraph of a note.
+ */
+
+import { EditorState } from "@codemirror/state";
+import { ensureSyntaxTree } from "@codemirror/language";
+import {
+	LengthBucket,
+	MusicalTextSettings,
+	ParagraphAnalysis,
+	RhythmStatistics,
+} from "./types";
+import { findSentences, getLengthBuckets } from "./sentence-detection";
+import { collectProseBlocks } from "./markdown-structure";
+
+/** How long to wait for the Markdown parser to reach the end of a note (ms) */
+const FULL_PARSE_TIMEOUT = 500;
+
+/**
+ * Analyzes every prose paragraph in an editor state.
+ * Paragraphs without any counted sentences are left out.
+ */
+export function analyzeDocument(
+	state: EditorState,
+	settings: MusicalTextSettings,
+): ParagraphAnalysis[] {
+	const tree = ensureSyntaxTree(state, state.doc.length, FULL_PARSE_TIMEOUT);
+	const blocks = collectProseBlocks(
+		state,
+		0,
+		state.doc.length,
+		settings,
+		tree ?? undefined,
+	);
+
+	return blocks
+		.map((block) => ({
+			from: block.from,
+			to: block.from + block.text.length,
+			sentences: findSentences(block.text, settings, block.from),
+		}))
+		.filter((paragraph) => paragraph.sentences.length > 0);
+}
+
+/** Summarizes sentence lengths across a document and per paragraph */
+export function computeStatistics(
+	paragraphs: ParagraphAnalysis[],
+	settings: MusicalTextSettings,
+): RhythmStatistics {
+	const lengths = paragraphs.flatMap((paragraph) =>
+		paragraph.sentences.map((sentence) => sentence.length),
+	);
+
+	const histogram = getLengthBuckets(settings).map(
+		(bucket: LengthBucket) => ({
+			bucket,
+			count: paragraphs.reduce(
+				(total, paragraph) =>
+					total +
+					paragraph.sentences.filter(
+						(sentence) => sentence.className === bucket.className,
+					).length,
+				0,
+			),
+		}),
+	);
+
+	return {
+		sentenceCount: lengths.length,
+		mean: mean(lengths),
+		median: median(lengths),
+		variance: variance(lengths),
+		standardDeviation: standardDeviation(lengths),
+		histogram,
+		paragraphs: paragraphs.map((paragraph) => ({
+			paragraph,
+			mean: mean(paragraph.sentences.map((s) => s.length)),
+		})),
+	};
+}
+
+export function mean(values: number[]): number {
+	if (values.length === 0) return 0;
+	return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+	if (values.length === 0) return 0;
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0
+		? (sorted[middle - 1] + sorted[middle]) / 2
+		: sorted[middle];
+}
+
+/** Population variance */
+export function variance(values: number[]): number {
+	if (values.length === 0) return 0;
+	const average = mean(values);
+	return mean(values.map((value) => (value - average) ** 2));
+}
+
+/** Population standard deviation */
+export function standardDeviation(values: number[]): number {
+	return Math.sqrt(variance(values));
+}
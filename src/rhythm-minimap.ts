@@ -0,0 +1,269 @@
+/**
+ * Rhythm minimap drawn beside the editor's scrollbar
+ *
+ * Every sentence of the note gets one horizontal bar, stacked in document
+ * order, so the whole note reads as a waveform. Unlike the highlighter, the
+ * minimap needs the full document, so it is re-analyzed after a pause in
+ * typing rather than on every keystroke.
+ */
+
+import {
+	EditorView,
+	PluginValue,
+	ViewPlugin,
+	ViewUpdate,
+} from "@codemirror/view";
+import MusicalTextPlugin from "../main";
+import { ColorMode, SentenceRange } from "./types";
+import { getGradientColor, getLengthBuckets } from "./sentence-detection";
+import { analyzeDocument } from "./rhythm-analysis";
+import { refreshHighlightEffect } from "./highlight-extension";
+
+/** Class on the editor root while the minimap is shown */
+const HAS_MINIMAP_CLASS = "musical-text-has-minimap";
+
+/** Bars never get taller than this, so short notes don't turn into blocks (px) */
+const MAX_BAR_HEIGHT = 4;
+
+/** Pause after typing before the document is re-analyzed (ms) */
+const ANALYSIS_DELAY = 500;
+
+/** Document range currently on screen */
+interface VisibleRange {
+	from: number;
+	to: number;
+}
+
+class RhythmMinimapView implements PluginValue {
+	private containerEl: HTMLElement;
+	private canvasEl: HTMLCanvasElement;
+	private viewportEl: HTMLElement;
+	private sentences: SentenceRange[] = [];
+	/** Color of each sentence's bar, parallel to `sentences` */
+	private barColors: string[] = [];
+	private analysisTimer: number | null = null;
+	private onScroll = () => {
+		if (this.isEnabled()) this.positionViewport();
+	};
+
+	constructor(
+		private view: EditorView,
+		private plugin: MusicalTextPlugin,
+	) {
+		this.containerEl = view.dom.createDiv({ cls: "musical-text-minimap" });
+		this.canvasEl = this.containerEl.createEl("canvas");
+		this.viewportEl = this.containerEl.createDiv({
+			cls: "musical-text-minimap-viewport",
+		});
+
+		this.canvasEl.addEventListener("mousedown", (event) =>
+			this.jumpToSentenceAt(event),
+		);
+		view.scrollDOM.addEventListener("scroll", this.onScroll);
+
+		this.sync();
+	}
+
+	update(update: ViewUpdate) {
+		const refresh = update.transactions.some((tr) =>
+			tr.effects.some((effect) => effect.is(refreshHighlightEffect)),
+		);
+		if (refresh) {
+			this.sync();
+			return;
+		}
+		if (!this.isEnabled()) return;
+
+		if (update.docChanged) {
+			// Keep bars pointing at the right text until the next analysis.
+			this.sentences = this.sentences.map((sentence) => ({
+				...sentence,
+				from: update.changes.mapPos(sentence.from, 1),
+				to: update.changes.mapPos(sentence.to, -1),
+			}));
+			this.scheduleAnalysis();
+		} else if (update.geometryChanged || update.viewportChanged) {
+			this.draw();
+		}
+	}
+
+	destroy() {
+		this.cancelAnalysis();
+		this.view.scrollDOM.removeEventListener("scroll", this.onScroll);
+		this.view.dom.removeClass(HAS_MINIMAP_CLASS);
+		this.containerEl.remove();
+	}
+
+	private isEnabled(): boolean {
+		return (
+			this.plugin.settings.showMinimap &&
+			!!this.plugin.editorHighlightingMap.get(this.view)
+		);
+	}
+
+	/** Shows or hides the minimap to match settings and the editor's toggle */
+	private sync() {
+		const enabled = this.isEnabled();
+		this.view.dom.toggleClass(HAS_MINIMAP_CLASS, enabled);
+		this.cancelAnalysis();
+		if (enabled) {
+			this.analyze();
+		} else {
+			this.sentences = [];
+		}
+	}
+
+	private scheduleAnalysis() {
+		this.cancelAnalysis();
+		this.analysisTimer = window.setTimeout(() => {
+			this.analysisTimer = null;
+			this.analyze();
+		}, ANALYSIS_DELAY);
+	}
+
+	private cancelAnalysis() {
+		if (this.analysisTimer !== null) {
+			window.clearTimeout(this.analysisTimer);
+			this.analysisTimer = null;
+		}
+	}
+
+	private analyze() {
+		const settings = this.plugin.getEditorSettings(this.view);
+		this.sentences = analyzeDocument(this.view.state, settings).flatMap(
+			(paragraph) => paragraph.sentences,
+		);
+		if (settings.colorMode === ColorMode.GRADIENT) {
+			this.barColors = this.sentences.map((sentence) =>
+				getGradientColor(sentence.length, settings),
+			);
+		} else {
+			const colors = new Map(
+				getLengthBuckets(settings).map((bucket) => [
+					bucket.className,
+					bucket.color,
+				]),
+			);
+			this.barColors = this.sentences.map(
+				(sentence) => colors.get(sentence.className) ?? "",
+			);
+		}
+		this.draw();
+	}
+
+	private barHeight(height: number): number {
+		return Math.min(
+			MAX_BAR_HEIGHT,
+			height / Math.max(1, this.sentences.length),
+		);
+	}
+
+	/** Repaints all bars, reading the minimap's size in the measure phase */
+	private draw() {
+		this.view.requestMeasure({
+			key: this,
+			read: () => ({
+				width: this.containerEl.clientWidth,
+				height: this.containerEl.clientHeight,
+			}),
+			write: ({ width, height }) => {
+				this.paint(width, height);
+				this.positionViewport();
+			},
+		});
+	}
+
+	private paint(width: number, height: number) {
+		const ratio = window.devicePixelRatio || 1;
+		this.canvasEl.width = Math.round(width * ratio);
+		this.canvasEl.height = Math.round(height * ratio);
+
+		const context = this.canvasEl.getContext("2d");
+		if (!context) return;
+		context.scale(ratio, ratio);
+
+		const barHeight = this.barHeight(height);
+		// Leave a hairline between bars when there is room for one.
+		const gap = barHeight >= 3 ? 1 : 0;
+		const longest = this.sentences.reduce(
+			(max, sentence) => Math.max(max, sentence.length),
+			1,
+		);
+
+		this.sentences.forEach((sentence, index) => {
+			context.fillStyle = this.barColors[index] ?? "";
+			context.fillRect(
+				0,
+				index * barHeight,
+				(sentence.length / longest) * width,
+				barHeight - gap,
+			);
+		});
+	}
+
+	/** Outlines the bars of the sentences currently on screen */
+	private positionViewport() {
+		this.view.requestMeasure<VisibleRange & { height: number }>({
+			key: this.viewportEl,
+			read: (view) => {
+				const rect = view.scrollDOM.getBoundingClientRect();
+				return {
+					from: view.lineBlockAtHeight(rect.top - view.documentTop)
+						.from,
+					to: view.lineBlockAtHeight(rect.bottom - view.documentTop)
+						.to,
+					height: this.containerEl.clientHeight,
+				};
+			},
+			write: ({ from, to, height }) => {
+				const first = this.sentences.findIndex(
+					(sentence) => sentence.to >= from,
+				);
+				let last = first;
+				while (
+					last + 1 < this.sentences.length &&
+					this.sentences[last + 1].from <= to
+				) {
+					last++;
+				}
+
+				if (first === -1) {
+					this.viewportEl.hide();
+					return;
+				}
+				const barHeight = this.barHeight(height);
+				this.viewportEl.show();
+				this.viewportEl.style.top = `${first * barHeight}px`;
+				this.viewportEl.style.height = `${
+					(last - first + 1) * barHeight
+				}px`;
+			},
+		});
+	}
+
+	/** Selects and scrolls to the sentence under the pointer */
+	private jumpToSentenceAt(event: MouseEvent) {
+		const rect = this.canvasEl.getBoundingClientRect();
+		const index = Math.floor(
+			(event.clientY - rect.top) / this.barHeight(rect.height),
+		);
+		const sentence = this.sentences[index];
+		if (!sentence) return;
+
+		event.preventDefault();
+		this.view.dispatch({
+			selection: { anchor: sentence.from, head: sentence.to },
+			effects: EditorView.scrollIntoView(sentence.from, { y: "center" }),
+		});
+		this.view.focus();
+	}
+}
+
+/**
+ * Creates the editor extension that draws the rhythm minimap in highlighted
+ * editors when the minimap setting is on.
+ * @param plugin Reference to the plugin instance for accessing settings and state
+ */
+export function createRhythmMinimap(plugin: MusicalTextPlugin) {
+	return ViewPlugin.define((view) => new RhythmMinimapView(view, plugin));
+}
@@ -0,0 +1,223 @@
+/**
+ * Rhythm report: a note comparing the sentence rhythm of every note in a
+ * folder or the whole vault
+ */
+
+import {
+	App,
+	FuzzySuggestModal,
+	Modal,
+	Notice,
+	Setting,
+	TFile,
+	TFolder,
+	normalizePath,
+} from "obsidian";
+import MusicalTextPlugin from "../main";
+import { MusicalTextSettings, NoteRhythmSummary } from "./types";
+import { getLengthBuckets, getMetricUnit } from "./sentence-detection";
+import { getNoteSettings } from "./note-settings";
+import { analyzeNotes, sortByFlatness } from "./note-analysis";
+
+/** Name of the report note, written to the analyzed folder */
+const REPORT_NAME = "Rhythm report";
+
+/** Lets the user choose the folder to report on, or the whole vault */
+export class ReportFolderModal extends FuzzySuggestModal<TFolder> {
+	constructor(
+		app: App,
+		private onChoose: (folder: TFolder) => void,
+	) {
+		super(app);
+		this.setPlaceholder("Choose a folder to report on");
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault
+			.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? "Whole vault" : folder.path;
+	}
+
+	onChooseItem(folder: TFolder) {
+		this.onChoose(folder);
+	}
+}
+
+/** Shows how many notes have been analyzed, with a button to stop */
+class ReportProgressModal extends Modal {
+	cancelled = false;
+	private progressEl: HTMLProgressElement;
+	private statusEl: HTMLElement;
+
+	onOpen() {
+		this.titleEl.setText("Creating rhythm report");
+		this.progressEl = this.contentEl.createEl("progress", {
+			cls: "musical-text-report-progress",
+		});
+		this.statusEl = this.contentEl.createDiv();
+		new Setting(this.contentEl).addButton((button) =>
+			button.setButtonText("Cancel").onClick(() => this.close()),
+		);
+	}
+
+	setProgress(done: number, total: number) {
+		this.progressEl.max = total;
+		this.progressEl.value = done;
+		this.statusEl.setText(`Analyzed ${done} of ${total} notes`);
+	}
+
+	onClose() {
+		// Closing the dialog in any way stops the analysis.
+		this.cancelled = true;
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Analyzes every Markdown note in a folder and its subfolders, then writes
+ * and opens the report note
+ */
+export async function createRhythmReport(
+	plugin: MusicalTextPlugin,
+	folder: TFolder,
+) {
+	const { app } = plugin;
+	const reportPath = getReportPath(folder);
+	const files = app.vault
+		.getMarkdownFiles()
+		.filter(
+			(file) =>
+				file.path !== reportPath &&
+				(folder.isRoot() || file.path.startsWith(`${folder.path}/`)),
+		);
+	if (files.length === 0) {
+		new Notice("No notes to report on");
+		return;
+	}
+
+	const settings = plugin.getThemedSettings();
+	const progressModal = new ReportProgressModal(app);
+	progressModal.open();
+	progressModal.setProgress(0, files.length);
+	try {
+		const summaries = await analyzeNotes(
+			app,
+			files,
+			(file) =>
+				getNoteSettings(
+					settings,
+					app.metadataCache.getFileCache(file)?.frontmatter,
+				),
+			{
+				onProgress: (done, total) =>
+					progressModal.setProgress(done, total),
+				isCancelled: () => progressModal.cancelled,
+			},
+		);
+		if (!summaries) {
+			new Notice("Rhythm report cancelled");
+			return;
+		}
+
+		const report = formatRhythmReport(
+			sortByFlatness(summaries),
+			settings,
+			folder.isRoot() ? "Whole vault" : folder.path,
+			files.length,
+		);
+		const existing = app.vault.getAbstractFileByPath(reportPath);
+		let file: TFile;
+		if (existing instanceof TFile) {
+			await app.vault.modify(existing, report);
+			file = existing;
+		} else {
+			file = await app.vault.create(reportPath, report);
+		}
+		await app.workspace.getLeaf(true).openFile(file);
+	} catch (error) {
+		new Notice(
+			`Could not create the rhythm report: ${
+				error instanceof Error ? error.message : error
+			}`,
+		);
+	} finally {
+		progressModal.close();
+	}
+}
+
+/**
+ * Formats the report: one table row per note with prose, in the given
+ * order
+ * @param scope Name of the folder the notes are from
+ * @param noteCount How many notes were analyzed, with or without prose
+ */
+export function formatRhythmReport(
+	summaries: NoteRhythmSummary[],
+	settings: MusicalTextSettings,
+	scope: string,
+	noteCount: number,
+): string {
+	const buckets = getLengthBuckets(settings);
+	const header = [
+		"Note",
+		"Sentences",
+		"Mean",
+		"Variance",
+		...buckets.map((bucket) => escapeCell(bucket.name)),
+		"Monotony",
+	];
+	const alignment = ["---", ...header.slice(1).map(() => "---:")];
+	const rows = summaries.map((summary) => [
+		// The link's pipe is escaped so that it does not split the cell.
+		`[[${summary.path}\\|${getNoteName(summary.path)}]]`,
+		`${summary.sentenceCount}`,
+		summary.mean.toFixed(1),
+		summary.variance.toFixed(1),
+		...summary.bucketShares.map(
+			(share) => `${Math.round(share * 100)}%`,
+		),
+		`${summary.monotonyScore}`,
+	]);
+
+	const skipped = noteCount - summaries.length;
+	const notes = `${noteCount} ${noteCount === 1 ? "note" : "notes"}${
+		skipped > 0 ? `, ${skipped} of them without prose` : ""
+	}`;
+	const unit = getMetricUnit(settings.lengthMetric);
+	const lines = [
+		`# ${REPORT_NAME}: ${scope}`,
+		"",
+		`Generated ${new Date().toLocaleString()} from ${notes}. Lengths are in ${unit}.`,
+		"",
+		"Flattest prose first: the monotony score is the percentage of sentences in runs of similar length, and ties go to the note whose lengths vary least.",
+		"",
+		`| ${header.join(" | ")} |`,
+		`| ${alignment.join(" | ")} |`,
+		...rows.map((row) => `| ${row.join(" | ")} |`),
+		"",
+	];
+	return lines.join("\n");
+}
+
+/** Path of the report note for a folder */
+function getReportPath(folder: TFolder): string {
+	return normalizePath(
+		folder.isRoot()
+			? `${REPORT_NAME}.md`
+			: `${folder.path}/${REPORT_NAME}.md`,
+	);
+}
+
+/** A note's name without folders or extension */
+function getNoteName(path: string): string {
+	return path.replace(/^.*\//, "").replace(/\.md$/, "");
+}
+
+/** Escapes the pipes that would end a table cell */
+function escapeCell(text: string): string {
+	return text.replace(/\|/g, "\\|");
+}
@@ -2,69 +2,207 @@
  * Sentence detection and markdown parsing for Musical Text highlighting
  */
 
-import { RangeSet, RangeSetBuilder } from "@codemirror/state";
+import { Range, RangeSet } from "@codemirror/state";
 import { Decoration } from "@codemirror/view";
-import { MusicalTextSettings, MarkdownListMarkerResult } from "./types";
+import {
+	ColorMode,
+	LengthBand,
+	LengthBucket,
+	LengthMetric,
+	MusicalTextSettings,
+	MarkdownListMarkerResult,
+	SegmentationMode,
+	SegmentationOptions,
+	SentenceRange,
+	SentenceSpan,
+} from "./types";
+import { getIntlSegmenter, segmentSentences } from "./sentence-segmenter";
+import {
+	WCAG_CONTRAST_RATIOS,
+	getContrastingTextColor,
+	rampColor,
+} from "./color-utils";
+import { CJK_CHARACTER_REGEX, countSyllables } from "./prosody";
+import { getLineClass, marksLines } from "./marking-styles";
 
 /**
  * Creates sentence highlighting decorations for text.
  * Handles markdown lists and traditional sentence boundaries.
+ * Sentences spanning several lines get one decoration per line segment,
+ * all sharing the classification of the whole sentence.
  */
 export function computeDecorations(
 	text: string,
 	settings: MusicalTextSettings,
 	offset = 0,
 ): RangeSet<Decoration> {
-	const builder = new RangeSetBuilder<Decoration>();
+	return Decoration.set(
+		decorateSentences(text, findSentences(text, settings), settings, offset),
+		true,
+	);
+}
 
-	const lines = text.split(/(\r?\n)/);
-	let currentOffset = 0;
+/**
+ * Turns sentences found in `text` into mark decoration ranges, shifted by
+ * `offset`. Used directly by callers that cache `findSentences` results.
+ * Marking styles that mark lines also get a line decoration on every line,
+ * classed by the sentence that fills most of it. `text` must start at the
+ * start of a line.
+ */
+export function decorateSentences(
+	text: string,
+	sentences: SentenceRange[],
+	settings: MusicalTextSettings,
+	offset = 0,
+): Range<Decoration>[] {
+	const ranges: Range<Decoration>[] = [];
+	// Longest sentence segment on each line, by line start
+	const lineMarks = marksLines(settings)
+		? new Map<number, { width: number; sentence: SentenceRange }>()
+		: null;
 
-	for (const line of lines) {
-		if (line.trim().length === 0) {
-			currentOffset += line.length;
-			continue;
+	for (const sentence of sentences) {
+		const style = getSentenceColorStyle(sentence.length, settings);
+		const decoration = Decoration.mark({
+			class: sentence.className,
+			attributes: style ? { style } : undefined,
+		});
+		for (const segment of splitIntoLineSegments(
+			text,
+			sentence.from,
+			sentence.to,
+		)) {
+			ranges.push(
+				decoration.range(segment.from + offset, segment.to + offset),
+			);
+			if (lineMarks) {
+				const lineStart = text.lastIndexOf("\n", segment.from - 1) + 1;
+				const width = segment.to - segment.from;
+				if (width > (lineMarks.get(lineStart)?.width ?? 0)) {
+					lineMarks.set(lineStart, { width, sentence });
+				}
+			}
 		}
+	}
 
-		let processedLine = line;
-		let processedLineOffset = currentOffset;
+	for (const [lineStart, { sentence }] of lineMarks ?? []) {
+		const style = getSentenceColorStyle(sentence.length, settings);
+		ranges.push(
+			Decoration.line({
+				class: getLineClass(sentence.className),
+				attributes: style ? { style } : undefined,
+			}).range(lineStart + offset),
+		);
+	}
 
-		const listMarkerMatch = detectMarkdownListMarker(line.trim());
-		if (listMarkerMatch) {
-			processedLine = listMarkerMatch.content;
-			processedLineOffset += listMarkerMatch.markerLength;
-		}
+	return ranges;
+}
 
-		if (processedLine.length === 0) continue;
+/**
+ * Splits `text[from, to)` at line breaks, trimming whitespace (such as
+ * indentation or masked quote markers) from each segment
+ */
+function splitIntoLineSegments(
+	text: string,
+	from: number,
+	to: number,
+): SentenceSpan[] {
+	const segments: SentenceSpan[] = [];
+	let segmentStart = from;
 
-		const sentenceRegex = /([^.!?]*[.!?]+\s*|[^.!?\r\n]+(?=\r?\n|$))/g;
-		let match: RegExpExecArray | null;
+	while (segmentStart < to) {
+		const newline = text.indexOf("\n", segmentStart);
+		const segmentEnd = newline === -1 || newline >= to ? to : newline;
 
-		while ((match = sentenceRegex.exec(processedLine)) !== null) {
-			const sentence = match[0];
-			const trimmedSentence = sentence.trim();
+		let start = segmentStart;
+		let end = segmentEnd;
+		while (start < end && /\s/.test(text[start])) start++;
+		while (end > start && /\s/.test(text[end - 1])) end--;
+		if (start < end) {
+			segments.push({ from: start, to: end });
+		}
 
-			if (trimmedSentence.length === 0) continue;
+		segmentStart = segmentEnd + 1;
+	}
 
-			const wordCount = countWords(trimmedSentence);
-			const className = getClassForSentence(wordCount, settings);
+	return segments;
+}
 
+/**
+ * Finds sentences in text and classifies them by length.
+ * Shared by editor decorations and rendered (reading view) highlighting.
+ */
+export function findSentences(
+	text: string,
+	settings: MusicalTextSettings,
+	offset = 0,
+): SentenceRange[] {
+	const sentences: SentenceRange[] = [];
+
+	for (const paragraph of splitParagraphs(text)) {
+		const paragraphText = text.slice(paragraph.from, paragraph.to);
+
+		for (const span of segmentSentences(paragraphText, settings)) {
+			const sentence = paragraphText.slice(span.from, span.to);
+			const wordCount = countWords(sentence, settings);
 			if (wordCount === 0) continue;
 
-			const sentenceStart = processedLineOffset + match.index + offset;
-			const leadingWhitespace = sentence.length - sentence.trimStart().length;
-			const contentStart = sentenceStart + leadingWhitespace;
-			const contentEnd = contentStart + trimmedSentence.length;
+			const length =
+				settings.lengthMetric === LengthMetric.WORDS
+					? wordCount
+					: countLength(sentence, settings);
+			const paragraphStart = paragraph.from + offset;
+			sentences.push({
+				from: paragraphStart + span.from,
+				to: paragraphStart + span.to,
+				wordCount,
+				length,
+				className: getClassForSentence(length, settings),
+			});
+		}
+	}
+
+	return sentences;
+}
+
+/**
+ * Splits text into paragraphs. A paragraph continues across single line
+ * breaks and ends at a blank line or where a list item begins; list
+ * markers are left out of the paragraph.
+ */
+function splitParagraphs(text: string): SentenceSpan[] {
+	const paragraphs: SentenceSpan[] = [];
+	let current: SentenceSpan | null = null;
+	let lineStart = 0;
+
+	while (lineStart <= text.length) {
+		const newline = text.indexOf("\n", lineStart);
+		const lineEnd = newline === -1 ? text.length : newline;
+		const line = text.slice(lineStart, lineEnd);
 
-			if (contentStart < contentEnd) {
-				builder.add(contentStart, contentEnd, Decoration.mark({ class: className }));
+		if (line.trim().length === 0) {
+			current = null;
+		} else {
+			const listMarkerMatch = detectMarkdownListMarker(line);
+			if (listMarkerMatch) {
+				current = {
+					from: lineStart + listMarkerMatch.markerLength,
+					to: lineEnd,
+				};
+				paragraphs.push(current);
+			} else if (current) {
+				current.to = lineEnd;
+			} else {
+				current = { from: lineStart, to: lineEnd };
+				paragraphs.push(current);
 			}
 		}
 
-		currentOffset += line.length;
+		if (newline === -1) break;
+		lineStart = newline + 1;
 	}
 
-	return builder.finish();
+	return paragraphs;
 }
 
 /** Detects markdown list markers and extracts content */
@@ -101,23 +239,159 @@ export function detectMarkdownListMarker(line: string): MarkdownListMarkerResult
 	return null;
 }
 
-/** Counts words in a sentence using word boundary matching */
-export function countWords(sentence: string): number {
-	return (sentence.match(/[A-Za-z]+(?:['’][A-Za-z]+)?/g) || []).length;
+/**
+ * Counts words in a sentence.
+ * Uses `Intl.Segmenter` word boundaries in locale-aware mode and Unicode
+ * letter runs otherwise. With `cjkCharacterLength`, Chinese and Japanese
+ * characters count one each instead.
+ */
+export function countWords(
+	sentence: string,
+	options?: SegmentationOptions,
+): number {
+	let text = sentence;
+	let count = 0;
+
+	if (options?.cjkCharacterLength) {
+		count += (text.match(CJK_CHARACTER_REGEX) || []).length;
+		text = text.replace(CJK_CHARACTER_REGEX, " ");
+	}
+
+	const segmenter =
+		options?.segmentationMode === SegmentationMode.LOCALE
+			? getIntlSegmenter(options.locale, "word")
+			: null;
+	if (segmenter) {
+		for (const segment of segmenter.segment(text)) {
+			if (segment.isWordLike) count++;
+		}
+		return count;
+	}
+
+	return (
+		count +
+		(text.match(/[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)?/gu) || []).length
+	);
+}
+
+/**
+ * Measures a sentence in the active length metric: words, syllables
+ * (estimated for English), or letters and digits.
+ */
+export function countLength(
+	sentence: string,
+	settings: MusicalTextSettings,
+): number {
+	switch (settings.lengthMetric) {
+		case LengthMetric.SYLLABLES:
+			return countSyllables(sentence, settings.syllableExceptions);
+		case LengthMetric.CHARACTERS:
+			return (sentence.match(/[\p{L}\p{N}]/gu) || []).length;
+		default:
+			return countWords(sentence, settings);
+	}
 }
 
-/** Returns CSS class for sentence based on word count and thresholds */
+/** Band fields holding the length limit for each metric */
+const BAND_LIMIT_KEYS = {
+	[LengthMetric.WORDS]: "maxWords",
+	[LengthMetric.SYLLABLES]: "maxSyllables",
+	[LengthMetric.CHARACTERS]: "maxCharacters",
+} as const;
+
+/** Gets a band's upper length limit in a metric */
+export function getBandLimit(
+	band: LengthBand,
+	metric: LengthMetric,
+): number | null {
+	return band[BAND_LIMIT_KEYS[metric]];
+}
+
+/** Sets a band's upper length limit in a metric */
+export function setBandLimit(
+	band: LengthBand,
+	metric: LengthMetric,
+	limit: number | null,
+) {
+	band[BAND_LIMIT_KEYS[metric]] = limit;
+}
+
+/** Plural unit name of a length metric, e.g. "syllables" */
+export function getMetricUnit(metric: LengthMetric): string {
+	return metric;
+}
+
+/** Lists the sentence length buckets, from shortest to longest */
+export function getLengthBuckets(settings: MusicalTextSettings): LengthBucket[] {
+	let minLength = 1;
+	return settings.bands.map((band, index) => {
+		const maxLength = getBandLimit(band, settings.lengthMetric);
+		const bucket = {
+			className: getBandClass(index),
+			name: band.name,
+			color: band.color,
+			minLength,
+			maxLength,
+		};
+		minLength = (maxLength ?? minLength) + 1;
+		return bucket;
+	});
+}
+
+/** Formats a bucket's length range, e.g. "5–7" or "13+" */
+export function formatBucketRange(bucket: LengthBucket): string {
+	if (bucket.maxLength === null) return `${bucket.minLength}+`;
+	if (bucket.maxLength === bucket.minLength) return `${bucket.minLength}`;
+	return `${bucket.minLength}–${bucket.maxLength}`;
+}
+
+/** Returns CSS class for sentence based on its length and the length bands */
 export function getClassForSentence(
-	wordCount: number,
+	length: number,
 	settings: MusicalTextSettings,
 ): string {
-	if (wordCount < settings.shortThreshold) {
-		return "sh-mini";
-	} else if (wordCount <= settings.mediumThreshold) {
-		return "sh-short";
-	} else if (wordCount <= settings.longThreshold) {
-		return "sh-medium";
-	} else {
-		return "sh-long";
-	}
+	const index = settings.bands.findIndex((band) => {
+		const limit = getBandLimit(band, settings.lengthMetric);
+		return limit === null || length <= limit;
+	});
+	return getBandClass(index === -1 ? settings.bands.length - 1 : index);
+}
+
+/**
+ * Color of a sentence on the gradient through the band colors. The gradient
+ * starts at a length of one and reaches its last color at `gradientMaxLength`.
+ */
+export function getGradientColor(
+	length: number,
+	settings: MusicalTextSettings,
+): string {
+	const t = (length - 1) / Math.max(1, settings.gradientMaxLength - 1);
+	return rampColor(
+		settings.bands.map((band) => band.color),
+		t,
+		settings.gradientInterpolation,
+	);
+}
+
+/**
+ * Inline style giving a sentence its own gradient colors, read by the
+ * generated stylesheet as `--sh-color` and `--sh-text-color`.
+ * Returns null when coloring by band, where the class alone is enough.
+ */
+export function getSentenceColorStyle(
+	length: number,
+	settings: MusicalTextSettings,
+): string | null {
+	if (settings.colorMode !== ColorMode.GRADIENT) return null;
+	const color = getGradientColor(length, settings);
+	const textColor = getContrastingTextColor(
+		color,
+		WCAG_CONTRAST_RATIOS[settings.contrastLevel],
+	);
+	return `--sh-color: ${color}; --sh-text-color: ${textColor};`;
+}
+
+/** CSS class of the band at `index`, counted from the shortest */
+function getBandClass(index: number): string {
+	return `sh-band-${index}`;
 }
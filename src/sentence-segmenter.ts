@@ -0,0 +1,380 @@
+/**
+ * Rule-based sentence segmentation for Musical Text
+ *
+ * A period only ends a sentence when it is followed by whitespace (or the
+ * end of the text) and does not belong to an abbreviation, an initial or an
+ * ellipsis that continues the sentence. This keeps decimals ("3.50"),
+ * version numbers ("v1.2.3"), URLs ("example.com/a.b") and
+ * "Dr. Smith at 5 p.m. on Jan. 4." together.
+ *
+ * Closing quotes and brackets stay with the sentence they close, and
+ * dialogue ("Hi," she said.) and quotations nested inside a sentence can be
+ * kept as one sentence or split, depending on the options. A quotation
+ * not closed on its line ends at the first sentence boundary.
+ *
+ * In locale-aware mode, boundaries come from `Intl.Segmenter` instead, which
+ * also handles scripts without spaces or Latin punctuation.
+ */
+
+import {
+	QuotedSentenceMode,
+	SegmentationMode,
+	SegmentationOptions,
+	SentenceSpan,
+} from "./types";
+
+/** Common English abbreviations, stored lowercase without the final period */
+export const DEFAULT_ABBREVIATIONS: string[] = [
+	"mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "mt", "rev", "gen",
+	"sen", "rep", "gov", "capt", "col", "lt", "sgt",
+	"jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct",
+	"nov", "dec", "mon", "tue", "wed", "thu", "fri", "sat", "sun",
+	"a.m", "p.m", "e.g", "i.e", "etc", "vs", "cf", "al", "approx", "ca",
+	"fig", "figs", "no", "nos", "vol", "vols", "pp", "ch", "sec", "ed", "eds",
+	"inc", "ltd", "co", "corp", "dept", "est", "ave", "blvd", "u.s", "u.k",
+];
+
+const DEFAULT_OPTIONS: SegmentationOptions = {
+	segmentationMode: SegmentationMode.RULES,
+	locale: "",
+	cjkCharacterLength: false,
+	abbreviations: DEFAULT_ABBREVIATIONS,
+	dialogueTagMode: QuotedSentenceMode.JOINED,
+	nestedQuoteMode: QuotedSentenceMode.JOINED,
+};
+
+/**
+ * Characters that can end a sentence, alone or in runs like `?!` or `...`.
+ * An em dash only ends a sentence when it interrupts a quotation: `"I—"`.
+ */
+const TERMINATOR_REGEX = /[.!?…—。！？]/;
+
+/** Full-width terminators, which are not followed by spaces */
+const FULL_WIDTH_TERMINATOR_REGEX = /[。！？]/;
+
+/** Closing quotes and brackets that belong to the sentence they follow */
+const CLOSER_REGEX = /["'”’»)\]}]/;
+
+/** Letters, digits and inner periods of the word before a period */
+const WORD_CHAR_REGEX = /[\p{L}\p{N}.]/u;
+
+/** Acronyms written with periods, e.g. "U.S.A" or "N.A.S.A" */
+const DOTTED_ACRONYM_REGEX = /^(\p{L}\.)+\p{L}$/u;
+
+// Normalized abbreviation sets, cached per settings array.
+const abbreviationSets = new WeakMap<string[], Set<string>>();
+
+// Intl.Segmenter instances, cached per locale and granularity.
+const intlSegmenters = new Map<string, Intl.Segmenter>();
+
+/**
+ * Splits text into sentences.
+ * @param text The text to segment; newlines are treated as whitespace
+ * @param options Segmentation options such as the abbreviation list
+ * @returns Sentence offsets into `text`, trimmed of surrounding whitespace
+ */
+export function segmentSentences(
+	text: string,
+	options: SegmentationOptions = DEFAULT_OPTIONS,
+): SentenceSpan[] {
+	if (options.segmentationMode === SegmentationMode.LOCALE) {
+		const segmenter = getIntlSegmenter(options.locale, "sentence");
+		if (segmenter) {
+			return segmentWithIntl(text, segmenter);
+		}
+	}
+
+	const abbreviations = getAbbreviationSet(options.abbreviations);
+	const spans: SentenceSpan[] = [];
+	let sentenceStart = 0;
+
+	// Double quotation state. A quote is "nested" when it opens after the
+	// sentence already has content, as in: He said, "It's late."
+	let inQuote = false;
+	let quoteIsNested = false;
+
+	const endSentence = (end: number) => {
+		pushTrimmedSpan(text, sentenceStart, end, spans);
+		sentenceStart = end;
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+
+		// Quotes do not continue past a line break.
+		if (char === "\n") {
+			inQuote = false;
+			i++;
+			continue;
+		}
+		if (
+			char === "“" ||
+			char === "«" ||
+			(char === '"' && !inQuote && isQuoteOpening(text, i))
+		) {
+			inQuote = true;
+			quoteIsNested = /[\p{L}\p{N}]/u.test(text.slice(sentenceStart, i));
+			i++;
+			continue;
+		}
+		if (char === "”" || char === "»" || char === '"') {
+			inQuote = false;
+			i++;
+			continue;
+		}
+
+		// Dialogue tags: "Hi," she said.
+		if (
+			char === "," &&
+			inQuote &&
+			!quoteIsNested &&
+			isClosingQuote(text[i + 1])
+		) {
+			inQuote = false;
+			const end = i + 2;
+			if (
+				options.dialogueTagMode === QuotedSentenceMode.SEPARATE &&
+				isFollowedByText(text, end)
+			) {
+				endSentence(end);
+			}
+			i = end;
+			continue;
+		}
+
+		if (!TERMINATOR_REGEX.test(char)) {
+			i++;
+			continue;
+		}
+
+		// Consume the whole run of terminators, e.g. "?!" or "...".
+		let runEnd = i;
+		while (runEnd < text.length && TERMINATOR_REGEX.test(text[runEnd])) {
+			runEnd++;
+		}
+
+		// Attach closing quotes and brackets: (It was late.) or "Stop."
+		let end = runEnd;
+		let closedQuote = false;
+		while (end < text.length && CLOSER_REGEX.test(text[end])) {
+			if (isClosingQuote(text[end])) {
+				closedQuote = true;
+				inQuote = false;
+			}
+			end++;
+		}
+
+		const run = text.slice(i, runEnd);
+		const isInterruption = /^—+$/.test(run);
+		// A quote with no closing quote later on its line may never be
+		// closed, as with a stray mark, so it holds no sentences together.
+		if (inQuote && !hasClosingQuoteOnLine(text, end)) {
+			inQuote = false;
+		}
+		const keptInQuote =
+			inQuote &&
+			quoteIsNested &&
+			options.nestedQuoteMode === QuotedSentenceMode.JOINED;
+
+		if (
+			!keptInQuote &&
+			(!isInterruption || closedQuote) &&
+			isSentenceBoundary(
+				text,
+				i,
+				end,
+				closedQuote,
+				abbreviations,
+				options,
+			)
+		) {
+			endSentence(end);
+		}
+		i = end;
+	}
+
+	pushTrimmedSpan(text, sentenceStart, text.length, spans);
+	return spans;
+}
+
+/**
+ * Decides whether the terminator run starting at `runStart`, together with
+ * any closing quotes and brackets up to `end`, ends a sentence
+ */
+function isSentenceBoundary(
+	text: string,
+	runStart: number,
+	end: number,
+	closedQuote: boolean,
+	abbreviations: Set<string>,
+	options: SegmentationOptions,
+): boolean {
+	// Terminators must be followed by whitespace or the end of the text.
+	// This rejects decimals, version numbers, URLs and "e.g" inner periods.
+	if (FULL_WIDTH_TERMINATOR_REGEX.test(text.slice(runStart, end))) {
+		return true;
+	}
+	if (end < text.length && !/\s/.test(text[end])) {
+		return false;
+	}
+
+	const nextChar = text.slice(end).trimStart().charAt(0);
+	if (nextChar === "") return true;
+
+	// A quoted sentence followed by a lowercase dialogue tag: "Stop!" she cried.
+	if (closedQuote && isLowercase(nextChar)) {
+		return options.dialogueTagMode === QuotedSentenceMode.SEPARATE;
+	}
+
+	const run = text.slice(runStart, end).replace(/["'”’»)\]}]+$/, "");
+
+	// Ellipses only end a sentence when a new one visibly begins.
+	if (run.includes("…") || run.startsWith("..")) {
+		return isUppercase(nextChar) || /["“«([]/.test(nextChar);
+	}
+
+	// A closing quote after the period shows it ends the quoted sentence,
+	// even after a word like "No".
+	if (run === "." && !closedQuote) {
+		const word = getWordBefore(text, runStart);
+		if (
+			abbreviations.has(word.toLowerCase()) ||
+			DOTTED_ACRONYM_REGEX.test(word)
+		) {
+			return false;
+		}
+		// Initials such as "J. R. R. Tolkien"
+		if (/^\p{Lu}$/u.test(word)) {
+			return false;
+		}
+		// A lowercase continuation means the period was not terminal.
+		if (isLowercase(nextChar)) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/** Splits text using the runtime's locale-aware sentence segmenter */
+function segmentWithIntl(
+	text: string,
+	segmenter: Intl.Segmenter,
+): SentenceSpan[] {
+	const spans: SentenceSpan[] = [];
+	for (const segment of segmenter.segment(text)) {
+		pushTrimmedSpan(
+			text,
+			segment.index,
+			segment.index + segment.segment.length,
+			spans,
+		);
+	}
+	return spans;
+}
+
+/**
+ * Returns a cached `Intl.Segmenter`, or null where the runtime lacks one.
+ * Invalid locales fall back to the runtime's default locale.
+ */
+export function getIntlSegmenter(
+	locale: string,
+	granularity: "sentence" | "word",
+): Intl.Segmenter | null {
+	if (typeof Intl === "undefined" || typeof Intl.Segmenter !== "function") {
+		return null;
+	}
+
+	const key = `${locale}|${granularity}`;
+	let segmenter = intlSegmenters.get(key);
+	if (!segmenter) {
+		try {
+			segmenter = new Intl.Segmenter(locale || undefined, { granularity });
+		} catch (e) {
+			segmenter = new Intl.Segmenter(undefined, { granularity });
+		}
+		intlSegmenters.set(key, segmenter);
+	}
+	return segmenter;
+}
+
+/**
+ * Whether the straight double quote at `index` can open a quotation: only
+ * at the start of a word, so that marks like 6'2" are left alone
+ */
+function isQuoteOpening(text: string, index: number): boolean {
+	return index === 0 || /[\s([{—–-]/.test(text[index - 1]);
+}
+
+function isClosingQuote(char: string | undefined): boolean {
+	return char === '"' || char === "”" || char === "»";
+}
+
+/** Checks whether a closing quote follows `from` before the line ends */
+function hasClosingQuoteOnLine(text: string, from: number): boolean {
+	const lineEnd = text.indexOf("\n", from);
+	return /["”»]/.test(
+		text.slice(from, lineEnd === -1 ? text.length : lineEnd),
+	);
+}
+
+/** Checks whether non-whitespace text follows position `end` */
+function isFollowedByText(text: string, end: number): boolean {
+	return /\s/.test(text.charAt(end)) && text.slice(end).trim().length > 0;
+}
+
+/** Returns the word (letters, digits and inner periods) ending at `end` */
+function getWordBefore(text: string, end: number): string {
+	let start = end;
+	while (start > 0 && WORD_CHAR_REGEX.test(text[start - 1])) {
+		start--;
+	}
+	return text.slice(start, end);
+}
+
+function isUppercase(char: string): boolean {
+	return char !== char.toLowerCase() && char === char.toUpperCase();
+}
+
+function isLowercase(char: string): boolean {
+	return char !== char.toUpperCase() && char === char.toLowerCase();
+}
+
+/** Adds the span `[from, to)` without leading or trailing whitespace */
+function pushTrimmedSpan(
+	text: string,
+	from: number,
+	to: number,
+	spans: SentenceSpan[],
+): void {
+	while (from < to && /\s/.test(text[from])) from++;
+	while (to > from && /\s/.test(text[to - 1])) to--;
+	if (from < to) {
+		spans.push({ from, to });
+	}
+}
+
+/** Normalizes a user abbreviation list to lowercase entries without periods */
+function getAbbreviationSet(abbreviations: string[]): Set<string> {
+	let set = abbreviationSets.get(abbreviations);
+	if (!set) {
+		set = new Set(
+			abbreviations
+				.map((abbreviation) =>
+					abbreviation.trim().toLowerCase().replace(/\.$/, ""),
+				)
+				.filter((abbreviation) => abbreviation.length > 0),
+		);
+		abbreviationSets.set(abbreviations, set);
+	}
+	return set;
+}
+
+/** Parses the settings text area (one abbreviation per line or comma) */
+export function parseAbbreviationList(value: string): string[] {
+	return value
+		.split(/[\n,]/)
+		.map((abbreviation) => abbreviation.trim())
+		.filter((abbreviation) => abbreviation.length > 0);
+}
@@ -0,0 +1,73 @@
+/**
+ * CSS rules that color sentences by their length class
+ */
+
+import { ColorMode, MarkedBucket, MusicalTextSettings } from "./types";
+import {
+	WCAG_CONTRAST_RATIOS,
+	getContrastingTextColor,
+} from "./color-utils";
+import { getLengthBuckets } from "./sentence-detection";
+import { getActiveMarkingStyles, getLineClass } from "./marking-styles";
+
+/**
+ * Generates the rules for every length class in the active marking styles
+ * @param scopes Selectors of the containers the rules apply in
+ */
+export function generateSentenceStyles(
+	settings: MusicalTextSettings,
+	scopes: string[],
+): string {
+	const sel = (className: string) =>
+		scopes.map((scope) => `${scope} .${className}`).join(", ");
+
+	const styles = getActiveMarkingStyles(settings);
+	const buckets = getLengthBuckets(settings);
+	// In gradient mode each sentence carries its own colors as
+	// inline custom properties, so the rules only refer to them.
+	const gradient = settings.colorMode === ColorMode.GRADIENT;
+
+	return buckets
+		.map((bucket, index) => {
+			const marked: MarkedBucket = {
+				color: gradient ? "var(--sh-color)" : bucket.color,
+				textColor: gradient
+					? "var(--sh-text-color)"
+					: getContrastingTextColor(
+							bucket.color,
+							WCAG_CONTRAST_RATIOS[settings.contrastLevel],
+						),
+				level: buckets.length > 1 ? index / (buckets.length - 1) : 1,
+			};
+			const sentence = styles
+				.map((style) => style.sentence?.(marked) ?? "")
+				.join("");
+			const line = styles
+				.map((style) => style.line?.(marked) ?? "")
+				.join("");
+
+			let rules = "";
+			if (sentence) {
+				rules += `${sel(bucket.className)} {${sentence}}\n`;
+			}
+			if (line) {
+				rules += `${sel(getLineClass(bucket.className))} {${line}}\n`;
+			}
+			return rules;
+		})
+		.join("");
+}
+
+/**
+ * Identifies the settings that affect sentence styles, so that notes styled
+ * alike can share one set of rules
+ */
+export function getStyleKey(settings: MusicalTextSettings): string {
+	return [
+		settings.markingStyle,
+		settings.combinedMarkingStyle,
+		settings.colorMode,
+		settings.contrastLevel,
+		...settings.bands.map((band) => band.color),
+	].join("|");
+}
@@ -0,0 +1,172 @@
+/**
+ * Hover tooltip with the details of a highlighted sentence
+ */
+
+import { EditorView, Tooltip, hoverTooltip } from "@codemirror/view";
+import MusicalTextPlugin from "../main";
+import {
+	ColorMode,
+	LengthBucket,
+	LengthMetric,
+	MusicalTextSettings,
+	SentenceRange,
+} from "./types";
+import {
+	findSentences,
+	formatBucketRange,
+	getGradientColor,
+	getLengthBuckets,
+	getMetricUnit,
+} from "./sentence-detection";
+import { collectProseBlocks } from "./markdown-structure";
+
+/** Delay before the tooltip appears (ms) */
+const HOVER_DELAY = 500;
+
+/**
+ * Finds the sentence under the pointer and describes it: word, syllable and
+ * character counts, its length bucket and how it relates to the sentences before it
+ * in the same paragraph.
+ */
+function getSentenceTooltip(
+	view: EditorView,
+	pos: number,
+	side: -1 | 1,
+	plugin: MusicalTextPlugin,
+): Tooltip | null {
+	if (
+		!plugin.settings.showHoverDetails ||
+		!plugin.editorHighlightingMap.get(view)
+	) {
+		return null;
+	}
+
+	const settings = plugin.getEditorSettings(view);
+	for (const block of collectProseBlocks(view.state, pos, pos, settings)) {
+		const sentences = findSentences(block.text, settings, block.from);
+		const index = sentences.findIndex(
+			(sentence) =>
+				(sentence.from < pos && pos < sentence.to) ||
+				(sentence.from === pos && side > 0) ||
+				(sentence.to === pos && side < 0),
+		);
+		if (index === -1) continue;
+
+		const sentence = sentences[index];
+		const bucket = getLengthBuckets(settings).find(
+			(b) => b.className === sentence.className,
+		);
+		if (!bucket) return null;
+
+		const text = view.state.sliceDoc(sentence.from, sentence.to);
+		const counts = [pluralize(sentence.wordCount, "word")];
+		if (settings.lengthMetric === LengthMetric.SYLLABLES) {
+			counts.push(pluralize(sentence.length, "syllable"));
+		}
+		counts.push(pluralize(text.length, "character"));
+
+		return {
+			pos: sentence.from,
+			end: sentence.to,
+			above: true,
+			create: () => ({
+				dom: renderTooltip(
+					bucket,
+					getMetricUnit(settings.lengthMetric),
+					settings.colorMode === ColorMode.GRADIENT
+						? getGradientColor(sentence.length, settings)
+						: bucket.color,
+					counts.join(" · "),
+					describeNeighbours(sentences, index, settings),
+				),
+			}),
+		};
+	}
+	return null;
+}
+
+function renderTooltip(
+	bucket: LengthBucket,
+	unit: string,
+	color: string,
+	counts: string,
+	neighbours: string,
+): HTMLElement {
+	const dom = createDiv({ cls: "musical-text-tooltip" });
+
+	const bucketEl = dom.createDiv({ cls: "musical-text-tooltip-bucket" });
+	const swatchEl = bucketEl.createSpan({
+		cls: "musical-text-tooltip-swatch",
+	});
+	swatchEl.style.backgroundColor = color;
+	bucketEl.appendText(
+		`${bucket.name} (${formatBucketRange(bucket)} ${unit})`,
+	);
+
+	dom.createDiv({ text: counts });
+	dom.createDiv({ cls: "musical-text-tooltip-neighbours", text: neighbours });
+	return dom;
+}
+
+/**
+ * Describes a sentence relative to the ones before it, e.g.
+ * "3rd medium sentence in a row" or "Previous sentence: long".
+ */
+function describeNeighbours(
+	sentences: SentenceRange[],
+	index: number,
+	settings: MusicalTextSettings,
+): string {
+	const className = sentences[index].className;
+	let run = 1;
+	while (
+		index - run >= 0 &&
+		sentences[index - run].className === className
+	) {
+		run++;
+	}
+
+	const buckets = getLengthBuckets(settings);
+	const nameOf = (cls: string) =>
+		(buckets.find((b) => b.className === cls)?.name ?? "").toLowerCase();
+
+	if (run > 1) {
+		return `${ordinal(run)} ${nameOf(className)} sentence in a row`;
+	}
+	if (index > 0) {
+		return `Previous sentence: ${nameOf(sentences[index - 1].className)}`;
+	}
+	return "First sentence of the paragraph";
+}
+
+/** Formats 1 as "1st", 2 as "2nd", 11 as "11th" and so on */
+function ordinal(n: number): string {
+	const lastTwo = n % 100;
+	if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`;
+	switch (n % 10) {
+		case 1:
+			return `${n}st`;
+		case 2:
+			return `${n}nd`;
+		case 3:
+			return `${n}rd`;
+		default:
+			return `${n}th`;
+	}
+}
+
+function pluralize(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Creates the editor extension that shows sentence details on hover in
+ * highlighted editors.
+ * @param plugin Reference to the plugin instance for accessing settings and state
+ */
+export function createSentenceTooltip(plugin: MusicalTextPlugin) {
+	return hoverTooltip(
+		(view, pos, side) => getSentenceTooltip(view, pos, side, plugin),
+		{ hoverTime: HOVER_DELAY },
+	);
+}
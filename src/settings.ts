@@ -2,120 +2,128 @@
  * Settings and configuration for Musical Text plugin
  */
 
-import { App, PluginSettingTab, Setting, Notice } from "obsidian";
 import {
+	App,
+	DropdownComponent,
+	PluginSettingTab,
+	Setting,
+	Notice,
+	setIcon,
+	setTooltip,
+} from "obsidian";
+import {
+	ColorInterpolation,
+	ColorMode,
 	ColorPalette,
+	ContrastLevel,
+	FocusScope,
+	LengthBand,
+	LengthMetric,
 	MusicalTextSettings,
+	QuotedSentenceMode,
+	SegmentationMode,
 	SentenceMarkingStyle,
 } from "./types";
 import MusicalTextPlugin from "../main";
+import {
+	DEFAULT_ABBREVIATIONS,
+	parseAbbreviationList,
+} from "./sentence-segmenter";
+import {
+	formatBucketRange,
+	getBandLimit,
+	getLengthBuckets,
+	getMetricUnit,
+	setBandLimit,
+} from "./sentence-detection";
+import {
+	formatSyllableExceptions,
+	parseSyllableExceptions,
+} from "./prosody";
+import {
+	WCAG_CONTRAST_RATIOS,
+	contrastRatio,
+	getContrastingTextColor,
+	samplePalette,
+} from "./color-utils";
+import {
+	PaletteFileModal,
+	PaletteNameModal,
+	addCustomPalette,
+	exportPalette,
+	getPalette,
+	getPalettes,
+	isCustomPalette,
+	parsePaletteFile,
+	removeCustomPalette,
+} from "./palette-library";
+import {
+	getActiveMarkingStyles,
+	getMarkingStyleNames,
+} from "./marking-styles";
+import { FOCUS_SCOPE_NAMES } from "./focus-mode";
 
 /** Popular code editor color palettes */
 export const COLOR_PALETTES: Record<string, ColorPalette> = {
 	default: {
 		name: "Default",
-		miniSentenceColor: "#AF3029",
-		shortSentenceColor: "#BC5215",
-		mediumSentenceColor: "#AD8301",
-		longSentenceColor: "#66800B",
+		colors: ["#AF3029", "#BC5215", "#AD8301", "#66800B"],
 	},
 	github: {
 		name: "Github",
-		miniSentenceColor: "#F87683",
-		shortSentenceColor: "#DCDCAA",
-		mediumSentenceColor: "#4EC9B0",
-		longSentenceColor: "#4FC1FF",
+		colors: ["#F87683", "#DCDCAA", "#4EC9B0", "#4FC1FF"],
 	},
 	oneDarkPro: {
 		name: "One Dark Pro",
-		miniSentenceColor: "#E06C75",
-		shortSentenceColor: "#E5C07B",
-		mediumSentenceColor: "#98C379",
-		longSentenceColor: "#61AFEE",
+		colors: ["#E06C75", "#E5C07B", "#98C379", "#61AFEE"],
 	},
 	ayu: {
 		name: "Ayu",
-		miniSentenceColor: "#FF8F40",
-		shortSentenceColor: "#FFB454",
-		mediumSentenceColor: "#ABD94B",
-		longSentenceColor: "#D2A6FF",
+		colors: ["#FF8F40", "#FFB454", "#ABD94B", "#D2A6FF"],
 	},
 	ayuLight: {
 		name: "Ayu Light",
-		miniSentenceColor: "#FA8D3F",
-		shortSentenceColor: "#F2AE49",
-		mediumSentenceColor: "#85B300",
-		longSentenceColor: "#A37ACC",
+		colors: ["#FA8D3F", "#F2AE49", "#85B300", "#A37ACC"],
 	},
 	monokaiDark: {
 		name: "Monokai Dark",
-		miniSentenceColor: "#FF6188",
-		shortSentenceColor: "#FFD966",
-		mediumSentenceColor: "#A8DC76",
-		longSentenceColor: "#78DCE8",
+		colors: ["#FF6188", "#FFD966", "#A8DC76", "#78DCE8"],
 	},
 	monokaiLight: {
 		name: "Monokai Light",
-		miniSentenceColor: "#E14774",
-		shortSentenceColor: "#CC7A0A",
-		mediumSentenceColor: "#269D69",
-		longSentenceColor: "#1C8CA8",
+		colors: ["#E14774", "#CC7A0A", "#269D69", "#1C8CA8"],
 	},
 	tokyoNight: {
 		name: "Tokyo Night",
-		miniSentenceColor: "#FF9D65",
-		shortSentenceColor: "#9ECE6A",
-		mediumSentenceColor: "#7AA2F7",
-		longSentenceColor: "#BB9AF7",
+		colors: ["#FF9D65", "#9ECE6A", "#7AA2F7", "#BB9AF7"],
 	},
 	tokyoNightLight: {
 		name: "Tokyo Night Light",
-		miniSentenceColor: "#965027",
-		shortSentenceColor: "#385F0C",
-		mediumSentenceColor: "#2859A9",
-		longSentenceColor: "#66359E",
+		colors: ["#965027", "#385F0C", "#2859A9", "#66359E"],
 	},
 	dracula: {
 		name: "Dracula",
-		miniSentenceColor: "#FF79C6",
-		shortSentenceColor: "#E9F284",
-		mediumSentenceColor: "#4FFA7B",
-		longSentenceColor: "#BC93F9",
+		colors: ["#FF79C6", "#E9F284", "#4FFA7B", "#BC93F9"],
 	},
 	nord: {
 		name: "Nord",
-		miniSentenceColor: "#A3BE8C",
-		shortSentenceColor: "#88C1D0",
-		mediumSentenceColor: "#81A1C1",
-		longSentenceColor: "#B48EAD",
+		colors: ["#A3BE8C", "#88C1D0", "#81A1C1", "#B48EAD"],
 	},
 	catppuccinFrappe: {
 		name: "Catppuccin Frappé",
-		miniSentenceColor: "#EF9E76",
-		shortSentenceColor: "#A6D189",
-		mediumSentenceColor: "#8CAAEE",
-		longSentenceColor: "#CA9EE6",
+		colors: ["#EF9E76", "#A6D189", "#8CAAEE", "#CA9EE6"],
 	},
 	catppuccinMacchiato: {
 		name: "Catppuccin Macchiato",
-		miniSentenceColor: "#F5A97F",
-		shortSentenceColor: "#A6DA95",
-		mediumSentenceColor: "#8AADF4",
-		longSentenceColor: "#C6A0F6",
+		colors: ["#F5A97F", "#A6DA95", "#8AADF4", "#C6A0F6"],
 	},
 	catppuccinLatte: {
 		name: "Catppuccin Latte",
-		miniSentenceColor: "#FE640C",
-		shortSentenceColor: "#40A02B",
-		mediumSentenceColor: "#1F65F5",
-		longSentenceColor: "#8839EF",
+		colors: ["#FE640C", "#40A02B", "#1F65F5", "#8839EF"],
 	},
 	catppuccinMocha: {
 		name: "Catppuccin Mocha",
-		miniSentenceColor: "#FAB387",
-		shortSentenceColor: "#A6E3A1",
-		mediumSentenceColor: "#89B4FA",
-		longSentenceColor: "#CBA6F7",
+		colors: ["#FAB387", "#A6E3A1", "#89B4FA", "#CBA6F7"],
 	},
 };
 
@@ -125,17 +133,209 @@ export const COLOR_PALETTES: Record<string, ColorPalette> = {
  */
 export const DEFAULT_SETTINGS: MusicalTextSettings = {
 	colorPalette: "default",
+	customPalettes: {},
+	themePalettes: false,
+	lightPalette: "catppuccinLatte",
+	darkPalette: "catppuccinMocha",
+	lightMarkingStyle: null,
+	darkMarkingStyle: null,
 	markingStyle: SentenceMarkingStyle.HIGHLIGHTING,
-	miniSentenceColor: COLOR_PALETTES.default.miniSentenceColor,
-	shortSentenceColor: COLOR_PALETTES.default.shortSentenceColor,
-	mediumSentenceColor: COLOR_PALETTES.default.mediumSentenceColor,
-	longSentenceColor: COLOR_PALETTES.default.longSentenceColor,
-	shortThreshold: 4, // words
-	mediumThreshold: 7, // words
-	longThreshold: 12, // words
+	combinedMarkingStyle: null,
+	bands: [
+		{
+			name: "Mini",
+			maxWords: 3,
+			maxSyllables: 5,
+			maxCharacters: 15,
+			color: COLOR_PALETTES.default.colors[0],
+		},
+		{
+			name: "Short",
+			maxWords: 7,
+			maxSyllables: 10,
+			maxCharacters: 35,
+			color: COLOR_PALETTES.default.colors[1],
+		},
+		{
+			name: "Medium",
+			maxWords: 12,
+			maxSyllables: 18,
+			maxCharacters: 60,
+			color: COLOR_PALETTES.default.colors[2],
+		},
+		{
+			name: "Long",
+			maxWords: null,
+			maxSyllables: null,
+			maxCharacters: null,
+			color: COLOR_PALETTES.default.colors[3],
+		},
+	],
+	colorMode: ColorMode.BANDS,
+	contrastLevel: ContrastLevel.OFF,
+	gradientInterpolation: ColorInterpolation.OKLCH,
+	gradientMaxLength: 30,
+	lengthMetric: LengthMetric.WORDS,
+	syllableExceptions: {},
 	defaultHighlightingEnabled: false,
+	autoHighlightRules: [],
+	fileHighlighting: {},
+	focusScope: FocusScope.DOCUMENT,
+	focusNeighbours: 1,
+	dimOutsideFocus: true,
+	defaultReadingHighlightingEnabled: false,
+	highlightPdfExport: true,
+	includeHeadings: false,
+	includeListItems: true,
+	includeBlockquotes: true,
+	includeCallouts: true,
+	segmentationMode: SegmentationMode.RULES,
+	locale: "",
+	cjkCharacterLength: false,
+	abbreviations: DEFAULT_ABBREVIATIONS,
+	dialogueTagMode: QuotedSentenceMode.JOINED,
+	nestedQuoteMode: QuotedSentenceMode.JOINED,
+	showMinimap: false,
+	showHoverDetails: true,
+	showStatusReadout: true,
+	detectMonotony: false,
+	monotonyRunLength: 4,
+	monotonyTolerance: 1,
+	benchmarkMode: false,
+};
+
+/** The note background, which colored text and underlines are read against */
+const NOTE_BACKGROUND = "var(--background-primary)";
+
+/** WCAG contrast for non-text marks such as underlines */
+const NON_TEXT_CONTRAST = 3;
+
+/** Names of the marking styles in dropdowns */
+const MARKING_STYLE_NAMES = getMarkingStyleNames();
+
+/** Dropdown value for a theme that uses the general marking style */
+const SAME_MARKING_STYLE = "";
+
+/** Dropdown value for marking sentences with one style only */
+const NO_COMBINED_STYLE = "";
+
+/** Fewest bands the settings tab allows */
+const MIN_BANDS = 2;
+
+/** Length given to the previously open-ended band when a band is added */
+const NEW_BAND_WIDTH: Record<LengthMetric, number> = {
+	[LengthMetric.WORDS]: 5,
+	[LengthMetric.SYLLABLES]: 8,
+	[LengthMetric.CHARACTERS]: 25,
 };
 
+/** Rough length of a word in each metric, for band limits saved without one */
+const LENGTH_PER_WORD: Record<LengthMetric, number> = {
+	[LengthMetric.WORDS]: 1,
+	[LengthMetric.SYLLABLES]: 1.5,
+	[LengthMetric.CHARACTERS]: 5,
+};
+
+/** Settings of earlier versions, replaced by `bands` */
+const LEGACY_BAND_KEYS = [
+	"miniSentenceColor",
+	"shortSentenceColor",
+	"mediumSentenceColor",
+	"longSentenceColor",
+	"shortThreshold",
+	"mediumThreshold",
+	"longThreshold",
+];
+
+/**
+ * Brings saved data from earlier versions up to date
+ * @param data Raw saved plugin data, modified in place
+ */
+export function migrateSettings(data: Record<string, unknown> | null) {
+	if (!data) return;
+	migrateLegacyBands(data);
+	if ("gradientMaxWords" in data) {
+		data.gradientMaxLength ??= data.gradientMaxWords;
+		delete data.gradientMaxWords;
+	}
+}
+
+/**
+ * Converts the fixed mini/short/medium/long colors and thresholds of earlier
+ * versions into length bands. Saved data that has bands is left alone.
+ * @param data Raw saved plugin data, modified in place
+ */
+function migrateLegacyBands(data: Record<string, unknown>) {
+	if (data.bands || !LEGACY_BAND_KEYS.some((key) => key in data)) {
+		return;
+	}
+
+	const threshold = (key: string, fallback: number) =>
+		typeof data[key] === "number" ? (data[key] as number) : fallback;
+	const color = (key: string, index: number) =>
+		typeof data[key] === "string"
+			? (data[key] as string)
+			: COLOR_PALETTES.default.colors[index];
+
+	// Syllable and character limits are derived by normalizeBands.
+	const band = (
+		name: string,
+		maxWords: number | null,
+		colorKey: string,
+		index: number,
+	): LengthBand => ({
+		name,
+		maxWords,
+		maxSyllables: null,
+		maxCharacters: null,
+		color: color(colorKey, index),
+	});
+	const bands = [
+		band(
+			"Mini",
+			threshold("shortThreshold", 4) - 1,
+			"miniSentenceColor",
+			0,
+		),
+		band("Short", threshold("mediumThreshold", 7), "shortSentenceColor", 1),
+		band(
+			"Medium",
+			threshold("longThreshold", 12),
+			"mediumSentenceColor",
+			2,
+		),
+		band("Long", null, "longSentenceColor", 3),
+	];
+	data.bands = bands;
+	for (const key of LEGACY_BAND_KEYS) {
+		delete data[key];
+	}
+}
+
+/**
+ * Returns a copy of the bands with strictly increasing limits in every length
+ * metric and an open-ended last band. Missing syllable and character limits
+ * are estimated from the word limits.
+ */
+export function normalizeBands(bands: LengthBand[]): LengthBand[] {
+	const source = bands.length > 0 ? bands : DEFAULT_SETTINGS.bands;
+	const normalized = source.map((band) => ({ ...band }));
+	// Words go first, so the other metrics are estimated from clean limits.
+	for (const metric of Object.values(LengthMetric)) {
+		let minLength = 1;
+		normalized.forEach((band, index) => {
+			const isLast = index === normalized.length - 1;
+			const saved =
+				getBandLimit(band, metric) ??
+				Math.round((band.maxWords ?? minLength) * LENGTH_PER_WORD[metric]);
+			const limit = isLast ? null : Math.max(minLength, Math.floor(saved));
+			setBandLimit(band, metric, limit);
+			minLength = (limit ?? minLength) + 1;
+		});
+	}
+	return normalized;
+}
+
 /** Settings tab for configuring colors and thresholds */
 export class SentenceHighlighterSettingTab extends PluginSettingTab {
 	plugin: MusicalTextPlugin;
@@ -149,30 +349,42 @@ export class SentenceHighlighterSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
-		this.validateThresholds();
+		this.plugin.settings.bands = normalizeBands(this.plugin.settings.bands);
 
 		new Setting(containerEl)
 			.setName("Sentence marking style")
 			.setDesc("Choose how sentences are visually marked")
 			.addDropdown((dropdown) => {
-				dropdown.addOption(
-					SentenceMarkingStyle.HIGHLIGHTING,
-					"Highlighting",
-				);
-				dropdown.addOption(
-					SentenceMarkingStyle.TEXT_COLOR,
-					"Text color",
-				);
-				dropdown.addOption(
-					SentenceMarkingStyle.COLOR_UNDERLINING,
-					"Color underlining",
-				);
+				dropdown.addOptions(MARKING_STYLE_NAMES);
 				dropdown
 					.setValue(this.plugin.settings.markingStyle)
 					.onChange(async (value) => {
 						this.plugin.settings.markingStyle =
 							value as SentenceMarkingStyle;
 						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+		new Setting(containerEl)
+			.setName("Combine with")
+			.setDesc(
+				"Mark sentences with a second style as well, such as text color plus an underline. Where both set the same property, this one wins.",
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption(NO_COMBINED_STYLE, "Nothing");
+				dropdown.addOptions(MARKING_STYLE_NAMES);
+				dropdown
+					.setValue(
+						this.plugin.settings.combinedMarkingStyle ??
+							NO_COMBINED_STYLE,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.combinedMarkingStyle =
+							value === NO_COMBINED_STYLE
+								? null
+								: (value as SentenceMarkingStyle);
+						await this.plugin.saveSettings();
+						this.display();
 					});
 			});
 		new Setting(containerEl)
@@ -201,267 +413,964 @@ export class SentenceHighlighterSettingTab extends PluginSettingTab {
 						this.display();
 					}),
 			);
-		new Setting(containerEl).setName("Colors").setHeading();
 		new Setting(containerEl)
-			.setName("Color Palette")
-			.setDesc("Choose from popular code editor color schemes")
-			.addDropdown((dropdown) => {
-				Object.keys(COLOR_PALETTES).forEach((key) => {
-					dropdown.addOption(
-						key,
-						COLOR_PALETTES[key as keyof typeof COLOR_PALETTES].name,
-					);
-				});
-				dropdown
-					.setValue(this.plugin.settings.colorPalette)
-					.onChange(async (value) => {
-						this.plugin.settings.colorPalette = value;
-						this.applyPalette(value);
-						await this.plugin.saveSettings();
-						this.display();
-					});
-			});
-		new Setting(containerEl)
-			.setName("Mini sentence color")
-			.setDesc("Color for very short sentences")
-			.addExtraButton((button) =>
-				button
-					.setIcon("reset")
-					.setTooltip("Reset to palette color")
-					.onClick(this.createColorResetHandler("miniSentenceColor")),
+			.setName("Rhythm minimap")
+			.setDesc(
+				"Show one bar per sentence beside the scrollbar of highlighted editors. Click a bar to jump to its sentence.",
 			)
-			.addColorPicker((cp) =>
-				cp
-					.setValue(this.plugin.settings.miniSentenceColor)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showMinimap)
 					.onChange(async (value) => {
-						this.plugin.settings.miniSentenceColor = value;
+						this.plugin.settings.showMinimap = value;
 						await this.plugin.saveSettings();
 					}),
 			);
 		new Setting(containerEl)
-			.setName("Short sentence color")
-			.setDesc("Color for short sentences")
-			.addExtraButton((button) =>
-				button
-					.setIcon("reset")
-					.setTooltip("Reset to palette color")
-					.onClick(
-						this.createColorResetHandler("shortSentenceColor"),
-					),
+			.setName("Hover details")
+			.setDesc(
+				"Show a sentence's word count, length category and neighbours when hovering it",
 			)
-			.addColorPicker((cp) =>
-				cp
-					.setValue(this.plugin.settings.shortSentenceColor)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showHoverDetails)
 					.onChange(async (value) => {
-						this.plugin.settings.shortSentenceColor = value;
+						this.plugin.settings.showHoverDetails = value;
 						await this.plugin.saveSettings();
 					}),
 			);
 		new Setting(containerEl)
-			.setName("Medium sentence color")
-			.setDesc("Color for medium sentences")
-			.addExtraButton((button) =>
-				button
-					.setIcon("reset")
-					.setTooltip("Reset to palette color")
-					.onClick(
-						this.createColorResetHandler("mediumSentenceColor"),
-					),
+			.setName("Sentence readout")
+			.setDesc(
+				"Show the word count and length category of the sentence at the cursor, its paragraph's running average and the note's length variance in the status bar. Click the readout for details.",
 			)
-			.addColorPicker((cp) =>
-				cp
-					.setValue(this.plugin.settings.mediumSentenceColor)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showStatusReadout)
 					.onChange(async (value) => {
-						this.plugin.settings.mediumSentenceColor = value;
+						this.plugin.settings.showStatusReadout = value;
 						await this.plugin.saveSettings();
 					}),
 			);
+		new Setting(containerEl).setName("Editor").setHeading();
 		new Setting(containerEl)
-			.setName("Long sentence color")
-			.setDesc("Color for long sentences")
-			.addExtraButton((button) =>
-				button
-					.setIcon("reset")
-					.setTooltip("Reset to palette color")
-					.onClick(this.createColorResetHandler("longSentenceColor")),
+			.setName("Highlight notes by default")
+			.setDesc(
+				"Turn highlighting on for notes that have no remembered state, frontmatter setting or matching rule",
 			)
-			.addColorPicker((cp) =>
-				cp
-					.setValue(this.plugin.settings.longSentenceColor)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.defaultHighlightingEnabled)
 					.onChange(async (value) => {
-						this.plugin.settings.longSentenceColor = value;
+						this.plugin.settings.defaultHighlightingEnabled = value;
 						await this.plugin.saveSettings();
 					}),
 			);
 		new Setting(containerEl)
-			.setName("Sentence length thresholds")
-			.setHeading();
+			.setName("Auto-enable rules")
+			.setDesc(
+				"Turn highlighting on for matching notes, one rule per line: a tag (#draft), a folder (Essays/ or Essays) or a path pattern (**/*.poem.md). Rules ignore case.",
+			)
+			.addTextArea((text) => {
+				text.setPlaceholder("#draft\nEssays/").setValue(
+					this.plugin.settings.autoHighlightRules.join("\n"),
+				);
+				text.inputEl.rows = 4;
+				text.inputEl.addEventListener("blur", async () => {
+					this.plugin.settings.autoHighlightRules = text
+						.getValue()
+						.split("\n")
+						.map((rule) => rule.trim())
+						.filter((rule) => rule.length > 0);
+					await this.plugin.saveSettings();
+				});
+				return text;
+			});
+		const rememberedCount = Object.keys(
+			this.plugin.settings.fileHighlighting,
+		).length;
 		new Setting(containerEl)
-			.setName("Short sentence threshold")
+			.setName("Remembered notes")
 			.setDesc(
-				`Number of words or less to be considered a short sentence (current: ${this.plugin.settings.shortThreshold} words)`,
+				`Highlighting is remembered for each note you toggle it in (${rememberedCount} ${
+					rememberedCount === 1 ? "note" : "notes"
+				}). Forgetting them returns those notes to the rules and default.`,
 			)
-			.addExtraButton((button) =>
+			.addButton((button) =>
 				button
-					.setIcon("reset")
-					.setTooltip("Reset to default threshold")
+					.setButtonText("Forget")
+					.setDisabled(rememberedCount === 0)
 					.onClick(async () => {
-						this.plugin.settings.shortThreshold =
-							DEFAULT_SETTINGS.shortThreshold;
+						this.plugin.settings.fileHighlighting = {};
 						await this.plugin.saveSettings();
 						this.display();
 					}),
+			);
+		new Setting(containerEl)
+			.setName("Focus scope")
+			.setDesc(
+				"Mark only part of the note while drafting. The cycle focus scope commands switch between these.",
 			)
-			.addSlider((slider) =>
-				slider
-					.setLimits(
-						1,
-						Math.max(1, this.plugin.settings.mediumThreshold - 1),
-						1,
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(FOCUS_SCOPE_NAMES)
+					.setValue(this.plugin.settings.focusScope)
+					.onChange(async (value) => {
+						this.plugin.settings.focusScope = value as FocusScope;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+		if (this.plugin.settings.focusScope === FocusScope.SENTENCE) {
+			new Setting(containerEl)
+				.setName("Neighbouring sentences")
+				.setDesc(
+					"How many sentences before and after the current one stay in focus",
+				)
+				.addSlider((slider) =>
+					slider
+						.setLimits(0, 5, 1)
+						.setDynamicTooltip()
+						.setValue(this.plugin.settings.focusNeighbours)
+						.onChange(async (value) => {
+							this.plugin.settings.focusNeighbours = value;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+		if (this.plugin.settings.focusScope !== FocusScope.DOCUMENT) {
+			new Setting(containerEl)
+				.setName("Dim text outside focus")
+				.setDesc("Fade the text outside the focus scope")
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.dimOutsideFocus)
+						.onChange(async (value) => {
+							this.plugin.settings.dimOutsideFocus = value;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+		new Setting(containerEl).setName("Reading view").setHeading();
+		new Setting(containerEl)
+			.setName("Highlight reading view by default")
+			.setDesc(
+				"Show sentence colors in newly opened reading views. Each view can still be toggled on its own.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(
+						this.plugin.settings.defaultReadingHighlightingEnabled,
 					)
-					.setValue(this.plugin.settings.shortThreshold)
 					.onChange(async (value) => {
-						this.plugin.settings.shortThreshold = value;
-						this.validateThresholds();
+						this.plugin.settings.defaultReadingHighlightingEnabled =
+							value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Highlight exported PDFs")
+			.setDesc("Keep sentence colors when exporting a note to PDF")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.highlightPdfExport)
+					.onChange(async (value) => {
+						this.plugin.settings.highlightPdfExport = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl).setName("Markdown elements").setHeading();
+		new Setting(containerEl)
+			.setName("Headings")
+			.setDesc("Analyze heading text as sentences")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.includeHeadings)
+					.onChange(async (value) => {
+						this.plugin.settings.includeHeadings = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("List items")
+			.setDesc("Analyze bulleted, numbered and task list items")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.includeListItems)
+					.onChange(async (value) => {
+						this.plugin.settings.includeListItems = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Blockquotes")
+			.setDesc("Analyze quoted text")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.includeBlockquotes)
+					.onChange(async (value) => {
+						this.plugin.settings.includeBlockquotes = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Callouts")
+			.setDesc("Analyze the contents of callouts")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.includeCallouts)
+					.onChange(async (value) => {
+						this.plugin.settings.includeCallouts = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl).setName("Sentence detection").setHeading();
+		new Setting(containerEl)
+			.setName("Segmentation")
+			.setDesc(
+				"Rule-based detection is tuned for English. Locale-aware detection uses your system's language rules and supports scripts like Chinese and Japanese.",
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption(SegmentationMode.RULES, "Rule-based");
+				dropdown.addOption(SegmentationMode.LOCALE, "Locale-aware");
+				dropdown
+					.setValue(this.plugin.settings.segmentationMode)
+					.onChange(async (value) => {
+						this.plugin.settings.segmentationMode =
+							value as SegmentationMode;
 						await this.plugin.saveSettings();
 						this.display();
-					})
-					.setDynamicTooltip(),
+					});
+			});
+		if (this.plugin.settings.segmentationMode === SegmentationMode.LOCALE) {
+			new Setting(containerEl)
+				.setName("Locale")
+				.setDesc(
+					"Language tag such as en, de, fr or ja. Leave empty to use the app language. A note's `lang` frontmatter key overrides this.",
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("en")
+						.setValue(this.plugin.settings.locale)
+						.onChange(async (value) => {
+							this.plugin.settings.locale = value.trim();
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+		new Setting(containerEl)
+			.setName("Character length for Chinese and Japanese")
+			.setDesc(
+				"Count each Chinese or Japanese character as one word when measuring sentences",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.cjkCharacterLength)
+					.onChange(async (value) => {
+						this.plugin.settings.cjkCharacterLength = value;
+						await this.plugin.saveSettings();
+					}),
 			);
 		new Setting(containerEl)
-			.setName("Medium sentence threshold")
+			.setName("Abbreviations")
 			.setDesc(
-				`Medium sentence word count (current: ${this.plugin.settings.mediumThreshold})`,
+				"Words whose trailing period does not end a sentence, one per line (e.g. Dr, p.m, etc)",
 			)
 			.addExtraButton((button) =>
 				button
 					.setIcon("reset")
-					.setTooltip("Reset to default threshold")
+					.setTooltip("Reset to default abbreviations")
 					.onClick(async () => {
-						this.plugin.settings.mediumThreshold =
-							DEFAULT_SETTINGS.mediumThreshold;
+						this.plugin.settings.abbreviations =
+							DEFAULT_SETTINGS.abbreviations;
 						await this.plugin.saveSettings();
 						this.display();
 					}),
 			)
-			.addSlider((slider) =>
-				slider
-					.setLimits(
-						Math.max(2, this.plugin.settings.shortThreshold + 1),
-						Math.max(
-							this.plugin.settings.shortThreshold + 2,
-							this.plugin.settings.longThreshold - 1,
+			.addTextArea((text) => {
+				text.setValue(this.plugin.settings.abbreviations.join("\n"));
+				text.inputEl.rows = 8;
+				text.inputEl.addEventListener("blur", async () => {
+					this.plugin.settings.abbreviations = parseAbbreviationList(
+						text.getValue(),
+					);
+					await this.plugin.saveSettings();
+				});
+				return text;
+			});
+		new Setting(containerEl)
+			.setName("Dialogue tags")
+			.setDesc('Whether "Hi," she said. counts as one sentence or two')
+			.addDropdown((dropdown) => {
+				dropdown.addOption(QuotedSentenceMode.JOINED, "One sentence");
+				dropdown.addOption(
+					QuotedSentenceMode.SEPARATE,
+					"Separate sentences",
+				);
+				dropdown
+					.setValue(this.plugin.settings.dialogueTagMode)
+					.onChange(async (value) => {
+						this.plugin.settings.dialogueTagMode =
+							value as QuotedSentenceMode;
+						await this.plugin.saveSettings();
+					});
+			});
+		new Setting(containerEl)
+			.setName("Nested quotations")
+			.setDesc(
+				'Whether sentences quoted inside another sentence (He said, "It\'s late. Go.") stay part of it or count on their own',
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption(
+					QuotedSentenceMode.JOINED,
+					"Part of the sentence",
+				);
+				dropdown.addOption(
+					QuotedSentenceMode.SEPARATE,
+					"Separate sentences",
+				);
+				dropdown
+					.setValue(this.plugin.settings.nestedQuoteMode)
+					.onChange(async (value) => {
+						this.plugin.settings.nestedQuoteMode =
+							value as QuotedSentenceMode;
+						await this.plugin.saveSettings();
+					});
+			});
+		new Setting(containerEl).setName("Length bands").setHeading();
+		new Setting(containerEl)
+			.setName("Length metric")
+			.setDesc(
+				"Measure sentences in words, syllables (an English estimate) or letters and digits. Each metric keeps its own band limits.",
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption(LengthMetric.WORDS, "Words");
+				dropdown.addOption(LengthMetric.SYLLABLES, "Syllables");
+				dropdown.addOption(LengthMetric.CHARACTERS, "Characters");
+				dropdown
+					.setValue(this.plugin.settings.lengthMetric)
+					.onChange(async (value) => {
+						this.plugin.settings.lengthMetric = value as LengthMetric;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+		if (this.plugin.settings.lengthMetric === LengthMetric.SYLLABLES) {
+			new Setting(containerEl)
+				.setName("Syllable exceptions")
+				.setDesc(
+					"Words the syllable estimate gets wrong, one per line as word: syllables (e.g. fire: 1)",
+				)
+				.addTextArea((text) => {
+					text.setPlaceholder("fire: 1").setValue(
+						formatSyllableExceptions(
+							this.plugin.settings.syllableExceptions,
 						),
-						1,
-					)
-					.setValue(this.plugin.settings.mediumThreshold)
+					);
+					text.inputEl.rows = 6;
+					text.inputEl.addEventListener("blur", async () => {
+						this.plugin.settings.syllableExceptions =
+							parseSyllableExceptions(text.getValue());
+						await this.plugin.saveSettings();
+					});
+					return text;
+				});
+		}
+		if (!this.plugin.settings.themePalettes) {
+			new Setting(containerEl)
+				.setName("Color Palette")
+				.setDesc(
+					"Choose from popular code editor color schemes or your own palettes",
+				)
+				.addDropdown((dropdown) => {
+					this.addPaletteOptions(dropdown);
+					dropdown
+						.setValue(this.plugin.settings.colorPalette)
+						.onChange(async (value) => {
+							this.plugin.settings.colorPalette = value;
+							this.applyPalette(value);
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+		}
+		this.displayPaletteLibrary(containerEl);
+		this.displayThemePalettes(containerEl);
+		new Setting(containerEl)
+			.setName("Coloring")
+			.setDesc(
+				"Color each sentence by its band, or along a gradient through the band colors by exact length",
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption(ColorMode.BANDS, "By band");
+				dropdown.addOption(ColorMode.GRADIENT, "Gradient");
+				dropdown
+					.setValue(this.plugin.settings.colorMode)
 					.onChange(async (value) => {
-						this.plugin.settings.mediumThreshold = value;
-						this.validateThresholds();
+						this.plugin.settings.colorMode = value as ColorMode;
 						await this.plugin.saveSettings();
 						this.display();
+					});
+			});
+		new Setting(containerEl)
+			.setName("Text contrast")
+			.setDesc(
+				"Darken or lighten highlighted text until it meets a WCAG contrast level against its highlight",
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption(ContrastLevel.OFF, "Don't enforce");
+				dropdown.addOption(ContrastLevel.AA, "AA (4.5:1)");
+				dropdown.addOption(ContrastLevel.AAA, "AAA (7:1)");
+				dropdown
+					.setValue(this.plugin.settings.contrastLevel)
+					.onChange(async (value) => {
+						this.plugin.settings.contrastLevel =
+							value as ContrastLevel;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+		if (this.plugin.settings.colorMode === ColorMode.GRADIENT) {
+			const unit = getMetricUnit(this.plugin.settings.lengthMetric);
+			new Setting(containerEl)
+				.setName("Gradient color space")
+				.setDesc(
+					"OKLCH keeps steps evenly spaced to the eye; HSL matches older color pickers",
+				)
+				.addDropdown((dropdown) => {
+					dropdown.addOption(ColorInterpolation.OKLCH, "OKLCH");
+					dropdown.addOption(ColorInterpolation.HSL, "HSL");
+					dropdown
+						.setValue(this.plugin.settings.gradientInterpolation)
+						.onChange(async (value) => {
+							this.plugin.settings.gradientInterpolation =
+								value as ColorInterpolation;
+							await this.plugin.saveSettings();
+						});
+				});
+			new Setting(containerEl)
+				.setName("Gradient length")
+				.setDesc(
+					`Length in ${unit} at which sentences reach the last color. Longer sentences keep it.`,
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("reset")
+						.setTooltip("Reset to default length")
+						.onClick(async () => {
+							this.plugin.settings.gradientMaxLength =
+								DEFAULT_SETTINGS.gradientMaxLength;
+							await this.plugin.saveSettings();
+							this.display();
+						}),
+				)
+				.addText((text) => {
+					const textComponent = text
+						.setPlaceholder(
+							DEFAULT_SETTINGS.gradientMaxLength.toString(),
+						)
+						.setValue(
+							this.plugin.settings.gradientMaxLength.toString(),
+						);
+
+					const validateAndSave = async () => {
+						const numValue = parseInt(textComponent.getValue());
+						if (numValue === this.plugin.settings.gradientMaxLength) {
+							return;
+						}
+						if (isNaN(numValue) || numValue < 2) {
+							new Notice(
+								`Gradient length must be at least 2 ${unit}`,
+							);
+							this.display();
+							return;
+						}
+						this.plugin.settings.gradientMaxLength = numValue;
+						await this.plugin.saveSettings();
+						this.display();
+					};
+
+					textComponent.inputEl.addEventListener(
+						"blur",
+						validateAndSave,
+					);
+					textComponent.inputEl.addEventListener("keydown", (e) => {
+						if (e.key === "Enter") validateAndSave();
+					});
+
+					return textComponent;
+				});
+		}
+		this.displayBands(containerEl);
+		new Setting(containerEl).setName("Monotony").setHeading();
+		new Setting(containerEl)
+			.setName("Flag monotonous runs")
+			.setDesc(
+				"Mark the lines of paragraphs where several sentences in a row have similar lengths",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.detectMonotony)
+					.onChange(async (value) => {
+						this.plugin.settings.detectMonotony = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Run length")
+			.setDesc("How many similar sentences in a row make a run")
+			.addSlider((slider) =>
+				slider
+					.setLimits(2, 10, 1)
+					.setValue(this.plugin.settings.monotonyRunLength)
+					.onChange(async (value) => {
+						this.plugin.settings.monotonyRunLength = value;
+						await this.plugin.saveSettings();
 					})
 					.setDynamicTooltip(),
 			);
+		const toleranceUnit = getMetricUnit(this.plugin.settings.lengthMetric);
 		new Setting(containerEl)
-			.setName("Long sentence threshold")
-			.setDesc("Long sentence word count")
-			.addExtraButton((button) =>
-				button
-					.setIcon("reset")
-					.setTooltip("Reset to default threshold")
-					.onClick(async () => {
-						this.plugin.settings.longThreshold =
-							DEFAULT_SETTINGS.longThreshold;
+			.setName("Length tolerance")
+			.setDesc(
+				`Sentences within this many ${toleranceUnit} of a run's first sentence count as similar even in another band. 0 compares bands only.`,
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 10, 1)
+					.setValue(this.plugin.settings.monotonyTolerance)
+					.onChange(async (value) => {
+						this.plugin.settings.monotonyTolerance = value;
 						await this.plugin.saveSettings();
-						this.display();
-					}),
+					})
+					.setDynamicTooltip(),
+			);
+		new Setting(containerEl).setName("Advanced").setHeading();
+		new Setting(containerEl)
+			.setName("Benchmark mode")
+			.setDesc(
+				"Log how long sentence analysis takes on each editor update to the developer console",
 			)
-			.addText((text) => {
-				const textComponent = text
-					.setPlaceholder(DEFAULT_SETTINGS.longThreshold.toString())
-					.setValue(this.plugin.settings.longThreshold.toString());
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.benchmarkMode)
+					.onChange(async (value) => {
+						this.plugin.settings.benchmarkMode = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+	}
 
-				const validateAndSave = async () => {
-					const value = textComponent.getValue();
-					if (value === "") {
-						this.plugin.settings.longThreshold =
-							DEFAULT_SETTINGS.longThreshold;
+	/** Adds a row per length band, plus a button to add another band */
+	private displayBands(containerEl: HTMLElement) {
+		const { bands, lengthMetric } = this.plugin.settings;
+		const buckets = getLengthBuckets(this.plugin.settings);
+		const unit = getMetricUnit(lengthMetric);
+
+		bands.forEach((band, index) => {
+			const bucket = buckets[index];
+			const isLast = index === bands.length - 1;
+			const setting = new Setting(containerEl)
+				.setName(band.name || `Band ${index + 1}`)
+				.setDesc(`${formatBucketRange(bucket)} ${unit}`);
+
+			setting.addText((text) => {
+				text.setPlaceholder("Name").setValue(band.name);
+				const save = async () => {
+					const name = text.getValue().trim();
+					if (name === band.name) return;
+					band.name = name;
+					await this.plugin.saveSettings();
+					this.display();
+				};
+				text.inputEl.addEventListener("blur", save);
+				text.inputEl.addEventListener("keydown", (e) => {
+					if (e.key === "Enter") save();
+				});
+			});
+
+			if (!isLast) {
+				setting.addText((text) => {
+					const limit = getBandLimit(band, lengthMetric);
+					text.setPlaceholder(`Max ${unit}`).setValue(String(limit));
+					text.inputEl.type = "number";
+					text.inputEl.addClass("musical-text-band-max");
+					const validateAndSave = async () => {
+						const min = bucket.minLength;
+						const next = getBandLimit(bands[index + 1], lengthMetric);
+						const max = next === null ? Infinity : next - 1;
+						const numValue = parseInt(text.getValue());
+						if (numValue === limit) return;
+						if (isNaN(numValue) || numValue < min || numValue > max) {
+							new Notice(
+								max === Infinity
+									? `${band.name} must end at ${min} ${unit} or more`
+									: `${band.name} must end between ${min} and ${max} ${unit}`,
+							);
+							this.display();
+							return;
+						}
+						setBandLimit(band, lengthMetric, numValue);
 						await this.plugin.saveSettings();
 						this.display();
-						return;
-					}
-					const numValue = parseInt(value);
-					if (
-						isNaN(numValue) ||
-						numValue <= this.plugin.settings.mediumThreshold
-					) {
-						new Notice(
-							`Long threshold must be greater than ${this.plugin.settings.mediumThreshold}`,
+					};
+					text.inputEl.addEventListener("blur", validateAndSave);
+					text.inputEl.addEventListener("keydown", (e) => {
+						if (e.key === "Enter") validateAndSave();
+					});
+				});
+			}
+
+			// With theme palettes, colors come from the theme's palette.
+			if (!this.plugin.settings.themePalettes) {
+				const warningEl = setting.controlEl.createSpan({
+					cls: "musical-text-contrast-warning",
+				});
+				this.updateContrastWarning(warningEl, band.color);
+				setting
+					.addColorPicker((cp) =>
+						cp.setValue(band.color).onChange(async (value) => {
+							band.color = value;
+							this.updateContrastWarning(warningEl, value);
+							await this.plugin.saveSettings();
+						}),
+					)
+					.addExtraButton((button) =>
+						button
+							.setIcon("reset")
+							.setTooltip("Reset to palette color")
+							.onClick(this.createColorResetHandler(index)),
+					);
+			}
+			setting
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(() => this.swapBands(index, index - 1)),
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(isLast)
+						.onClick(() => this.swapBands(index, index + 1)),
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove band")
+						.setDisabled(bands.length <= MIN_BANDS)
+						.onClick(async () => {
+							if (bands.length <= MIN_BANDS) return;
+							bands.splice(index, 1);
+							this.plugin.settings.bands = normalizeBands(bands);
+							await this.plugin.saveSettings();
+							this.display();
+						}),
+				);
+		});
+
+		new Setting(containerEl)
+			.setDesc(
+				"Moving a band swaps its name and color with its neighbour; length limits stay in place.",
+			)
+			.addButton((button) =>
+				button.setButtonText("Add band").onClick(async () => {
+					// The open-ended band gets a limit in every metric and a new
+					// band follows it.
+					const last = bands[bands.length - 1];
+					const previous = bands[bands.length - 2];
+					for (const metric of Object.values(LengthMetric)) {
+						const minLength =
+							(previous ? getBandLimit(previous, metric) ?? 0 : 0) + 1;
+						setBandLimit(
+							last,
+							metric,
+							minLength + NEW_BAND_WIDTH[metric] - 1,
 						);
-						this.display();
-						return;
 					}
-					this.plugin.settings.longThreshold = numValue;
+					bands.push({
+						name: `Band ${bands.length + 1}`,
+						maxWords: null,
+						maxSyllables: null,
+						maxCharacters: null,
+						color: last.color,
+					});
 					await this.plugin.saveSettings();
 					this.display();
-				};
+				}),
+			);
+	}
 
-				textComponent.inputEl.addEventListener("blur", validateAndSave);
-				textComponent.inputEl.addEventListener("keydown", (e) => {
-					if (e.key === "Enter") validateAndSave();
-				});
+	/**
+	 * Shows a warning icon when a band color is hard to read in the active
+	 * marking styles: highlighted text against its highlight, colored text
+	 * against the note background, or a mark such as an underline against
+	 * the background
+	 */
+	private updateContrastWarning(warningEl: HTMLElement, color: string) {
+		const { settings } = this.plugin;
+		const required = Math.max(
+			WCAG_CONTRAST_RATIOS[ContrastLevel.AA],
+			WCAG_CONTRAST_RATIOS[settings.contrastLevel],
+		);
 
-				return textComponent;
-			});
+		warningEl.empty();
+		warningEl.hide();
+		for (const style of getActiveMarkingStyles(settings)) {
+			let ratio: number;
+			let minimum: number;
+			let subject: string;
+			switch (style.colorRole) {
+				case "background":
+					ratio = contrastRatio(
+						getContrastingTextColor(
+							color,
+							WCAG_CONTRAST_RATIOS[settings.contrastLevel],
+						),
+						color,
+					);
+					minimum = required;
+					subject = "Text on this highlight";
+					break;
+				case "text":
+					ratio = contrastRatio(color, NOTE_BACKGROUND);
+					minimum = required;
+					subject = "Text in this color";
+					break;
+				case "mark":
+					ratio = contrastRatio(color, NOTE_BACKGROUND);
+					minimum = NON_TEXT_CONTRAST;
+					subject = `The ${style.name.toLowerCase()}`;
+					break;
+				default:
+					continue;
+			}
+
+			if (ratio < minimum) {
+				warningEl.show();
+				setIcon(warningEl, "alert-triangle");
+				setTooltip(
+					warningEl,
+					`${subject} has a contrast of ${ratio.toFixed(1)}:1, below the ${minimum}:1 needed to read it comfortably`,
+				);
+				return;
+			}
+		}
 	}
 
-	private validateThresholds(): void {
+	/** Swaps the names and colors of two bands, keeping their length limits */
+	private async swapBands(a: number, b: number) {
+		const { bands } = this.plugin.settings;
+		if (!bands[a] || !bands[b]) return;
+		[bands[a].name, bands[b].name] = [bands[b].name, bands[a].name];
+		[bands[a].color, bands[b].color] = [bands[b].color, bands[a].color];
+		await this.plugin.saveSettings();
+		this.display();
+	}
+
+	/** Lists the built-in and user palettes in a dropdown */
+	private addPaletteOptions(dropdown: DropdownComponent) {
+		Object.entries(getPalettes(this.plugin.settings)).forEach(
+			([key, palette]) => {
+				dropdown.addOption(
+					key,
+					isCustomPalette(key)
+						? `${palette.name} (custom)`
+						: palette.name,
+				);
+			},
+		);
+	}
+
+	/** Toggle for theme palettes, with a palette and style for each theme */
+	private displayThemePalettes(containerEl: HTMLElement) {
 		const { settings } = this.plugin;
+		new Setting(containerEl)
+			.setName("Match light and dark theme")
+			.setDesc(
+				"Use a separate palette, and optionally a separate marking style, in light and dark themes. Band colors then come from the theme's palette.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.themePalettes)
+					.onChange(async (value) => {
+						settings.themePalettes = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+		if (!settings.themePalettes) return;
 
-		if (settings.mediumThreshold <= settings.shortThreshold) {
-			settings.mediumThreshold = Math.max(2, settings.shortThreshold + 1);
+		const themes = [
+			{
+				name: "Light",
+				palette: "lightPalette",
+				style: "lightMarkingStyle",
+			},
+			{ name: "Dark", palette: "darkPalette", style: "darkMarkingStyle" },
+		] as const;
+		for (const theme of themes) {
+			new Setting(containerEl)
+				.setName(`${theme.name} theme`)
+				.setDesc("Palette and marking style")
+				.addDropdown((dropdown) => {
+					this.addPaletteOptions(dropdown);
+					dropdown
+						.setValue(settings[theme.palette])
+						.onChange(async (value) => {
+							settings[theme.palette] = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addDropdown((dropdown) => {
+					dropdown.addOption(SAME_MARKING_STYLE, "Same marking style");
+					dropdown.addOptions(MARKING_STYLE_NAMES);
+					dropdown
+						.setValue(settings[theme.style] ?? SAME_MARKING_STYLE)
+						.onChange(async (value) => {
+							settings[theme.style] =
+								value === SAME_MARKING_STYLE
+									? null
+									: (value as SentenceMarkingStyle);
+							await this.plugin.saveSettings();
+						});
+				});
 		}
+	}
 
-		if (settings.longThreshold <= settings.mediumThreshold) {
-			settings.longThreshold = Math.max(3, settings.mediumThreshold + 1);
-		}
+	/** Buttons to save, rename, delete, export and import palettes */
+	private displayPaletteLibrary(containerEl: HTMLElement) {
+		const { settings } = this.plugin;
+		const key = settings.colorPalette;
+		const selected = getPalette(settings, key);
+		const isCustom = isCustomPalette(key) && !!settings.customPalettes[key];
 
-		if (settings.shortThreshold >= settings.mediumThreshold) {
-			settings.shortThreshold = Math.max(1, settings.mediumThreshold - 1);
-		}
+		new Setting(containerEl)
+			.setName("Palette library")
+			.setDesc(
+				"Save the current band colors as a palette, or share palettes as JSON files in your vault",
+			)
+			.addButton((button) =>
+				button.setButtonText("Save as palette").onClick(() =>
+					new PaletteNameModal(
+						this.app,
+						"Save palette",
+						"",
+						async (name) => {
+							settings.colorPalette = addCustomPalette(settings, {
+								name,
+								colors: settings.bands.map((band) => band.color),
+							});
+							await this.plugin.saveSettings();
+							this.display();
+						},
+					).open(),
+				),
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("pencil")
+					.setTooltip("Rename palette")
+					.setDisabled(!isCustom)
+					.onClick(() => {
+						if (!isCustom || !selected) return;
+						new PaletteNameModal(
+							this.app,
+							"Rename palette",
+							selected.name,
+							async (name) => {
+								selected.name = name;
+								await this.plugin.saveSettings();
+								this.display();
+							},
+						).open();
+					}),
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Delete palette")
+					.setDisabled(!isCustom)
+					.onClick(async () => {
+						if (!isCustom) return;
+						// The band colors stay as they are.
+						removeCustomPalette(settings, key);
+						settings.colorPalette = DEFAULT_SETTINGS.colorPalette;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("upload")
+					.setTooltip("Export palette to the vault")
+					.setDisabled(!selected)
+					.onClick(async () => {
+						if (!selected) return;
+						try {
+							const path = await exportPalette(this.app, selected);
+							new Notice(`Exported palette to ${path}`);
+						} catch (error) {
+							new Notice(`Could not export palette: ${error}`);
+						}
+					}),
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("download")
+					.setTooltip("Import palettes from a JSON file")
+					.onClick(() =>
+						new PaletteFileModal(this.app, async (file) => {
+							try {
+								const palettes = parsePaletteFile(
+									await this.app.vault.read(file),
+								);
+								for (const palette of palettes) {
+									addCustomPalette(settings, palette);
+								}
+								new Notice(
+									`Imported ${palettes.length} ${
+										palettes.length === 1 ? "palette" : "palettes"
+									} from ${file.name}`,
+								);
+								await this.plugin.saveSettings();
+								this.display();
+							} catch (error) {
+								new Notice(
+									`Could not import ${file.name}: ${
+										error instanceof Error ? error.message : error
+									}`,
+								);
+							}
+						}).open(),
+					),
+			);
 	}
 
 	private applyPalette(paletteKey: string) {
-		const palette =
-			COLOR_PALETTES[paletteKey as keyof typeof COLOR_PALETTES];
+		const palette = getPalette(this.plugin.settings, paletteKey);
 		if (palette) {
-			this.plugin.settings.miniSentenceColor = palette.miniSentenceColor;
-			this.plugin.settings.shortSentenceColor =
-				palette.shortSentenceColor;
-			this.plugin.settings.mediumSentenceColor =
-				palette.mediumSentenceColor;
-			this.plugin.settings.longSentenceColor = palette.longSentenceColor;
+			const { bands } = this.plugin.settings;
+			const colors = samplePalette(palette.colors, bands.length);
+			bands.forEach((band, index) => (band.color = colors[index]));
 		}
 	}
 
-	private createColorResetHandler(
-		colorProperty: keyof Pick<
-			MusicalTextSettings,
-			| "miniSentenceColor"
-			| "shortSentenceColor"
-			| "mediumSentenceColor"
-			| "longSentenceColor"
-		>,
-	) {
+	private createColorResetHandler(index: number) {
 		return async () => {
-			const palette =
-				COLOR_PALETTES[
-					this.plugin.settings
-						.colorPalette as keyof typeof COLOR_PALETTES
-				];
-			if (palette) {
-				this.plugin.settings[colorProperty] = palette[colorProperty];
+			const palette = getPalette(
+				this.plugin.settings,
+				this.plugin.settings.colorPalette,
+			);
+			const { bands } = this.plugin.settings;
+			if (palette && bands[index]) {
+				bands[index].color = samplePalette(
+					palette.colors,
+					bands.length,
+				)[index];
 				await this.plugin.saveSettings();
 				this.display();
 			}
@@ -0,0 +1,257 @@
+/**
+ * Side panel showing rhythm statistics for the active note
+ */
+
+import { ItemView, MarkdownView, WorkspaceLeaf, debounce } from "obsidian";
+import { EditorView } from "@codemirror/view";
+import MusicalTextPlugin from "../main";
+import { LengthBucket, RhythmStatistics, SentenceRange } from "./types";
+import { formatBucketRange, getMetricUnit } from "./sentence-detection";
+import { analyzeDocument, computeStatistics } from "./rhythm-analysis";
+
+export const VIEW_TYPE_RHYTHM_STATS = "musical-text-rhythm-stats";
+
+/** Delay before re-analyzing after an edit (ms) */
+const REFRESH_DELAY = 300;
+
+/**
+ * Shows sentence count, mean/median/standard deviation of sentence length,
+ * a histogram across the length buckets and a per-paragraph breakdown.
+ * Clicking a histogram bar or paragraph row selects the matching sentences
+ * in the editor.
+ */
+export class RhythmStatsView extends ItemView {
+	plugin: MusicalTextPlugin;
+	/** The note being analyzed; kept while the panel itself has focus */
+	private markdownView: MarkdownView | null = null;
+	/** Index of the last sentence jumped to from each histogram bar */
+	private bucketCursors = new Map<string, number>();
+	private requestRefresh = debounce(() => this.refresh(), REFRESH_DELAY, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: MusicalTextPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_RHYTHM_STATS;
+	}
+
+	getDisplayText(): string {
+		return "Rhythm statistics";
+	}
+
+	getIcon(): string {
+		return "bar-chart-2";
+	}
+
+	async onOpen() {
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				if (leaf?.view instanceof MarkdownView) {
+					this.markdownView = leaf.view;
+					this.refresh();
+				}
+			}),
+		);
+		// Opening another note in the same pane is not a leaf change.
+		this.registerEvent(
+			this.app.workspace.on("file-open", () => {
+				const view =
+					this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (view) {
+					this.markdownView = view;
+					this.refresh();
+				}
+			}),
+		);
+		this.registerEvent(
+			this.app.workspace.on("editor-change", (editor, info) => {
+				if (info === this.markdownView) {
+					this.requestRefresh();
+				}
+			}),
+		);
+
+		this.markdownView =
+			this.app.workspace.getActiveViewOfType(MarkdownView);
+		this.refresh();
+	}
+
+	/** Re-analyzes the note and redraws the panel */
+	refresh() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("musical-text-stats");
+
+		const cm = this.getEditorView();
+		if (!this.markdownView || !cm) {
+			contentEl.createDiv({
+				cls: "musical-text-stats-empty",
+				text: "Open a note to see its rhythm.",
+			});
+			return;
+		}
+
+		const settings = this.plugin.getEditorSettings(cm);
+		const statistics = computeStatistics(
+			analyzeDocument(cm.state, settings),
+			settings,
+		);
+		this.bucketCursors.clear();
+
+		contentEl.createEl("h4", {
+			text: this.markdownView.file?.basename ?? "Untitled",
+		});
+		this.renderSummary(contentEl, statistics);
+		this.renderHistogram(
+			contentEl,
+			statistics,
+			getMetricUnit(settings.lengthMetric),
+		);
+		this.renderParagraphs(contentEl, statistics);
+	}
+
+	private renderSummary(containerEl: HTMLElement, stats: RhythmStatistics) {
+		const summaryEl = containerEl.createDiv({
+			cls: "musical-text-stats-summary",
+		});
+		const addFigure = (label: string, value: string) => {
+			const figureEl = summaryEl.createDiv({
+				cls: "musical-text-stats-figure",
+			});
+			figureEl.createDiv({ cls: "musical-text-stats-value", text: value });
+			figureEl.createDiv({ cls: "musical-text-stats-label", text: label });
+		};
+
+		addFigure("Sentences", stats.sentenceCount.toString());
+		addFigure("Mean", stats.mean.toFixed(1));
+		addFigure("Median", stats.median.toFixed(1));
+		addFigure("Std. dev.", stats.standardDeviation.toFixed(1));
+	}
+
+	private renderHistogram(
+		containerEl: HTMLElement,
+		stats: RhythmStatistics,
+		unit: string,
+	) {
+		containerEl.createEl("h5", { text: `Sentence lengths (${unit})` });
+		const histogramEl = containerEl.createDiv({
+			cls: "musical-text-stats-histogram",
+		});
+		const maxCount = Math.max(1, ...stats.histogram.map((h) => h.count));
+
+		for (const { bucket, count } of stats.histogram) {
+			const rowEl = histogramEl.createDiv({
+				cls: "musical-text-stats-bar-row",
+			});
+			rowEl.createDiv({
+				cls: "musical-text-stats-bar-label",
+				text: `${bucket.name} (${formatBucketRange(bucket)})`,
+			});
+			const trackEl = rowEl.createDiv({
+				cls: "musical-text-stats-bar-track",
+			});
+			const fillEl = trackEl.createDiv({
+				cls: "musical-text-stats-bar-fill",
+			});
+			fillEl.style.width = `${(count / maxCount) * 100}%`;
+			fillEl.style.backgroundColor = bucket.color;
+			rowEl.createDiv({
+				cls: "musical-text-stats-bar-count",
+				text: count.toString(),
+			});
+
+			const sentences = stats.paragraphs.flatMap(({ paragraph }) =>
+				paragraph.sentences.filter(
+					(sentence) => sentence.className === bucket.className,
+				),
+			);
+			if (sentences.length > 0) {
+				rowEl.addClass("is-clickable");
+				rowEl.addEventListener("click", () =>
+					this.jumpToNextInBucket(bucket, sentences),
+				);
+			}
+		}
+	}
+
+	private renderParagraphs(containerEl: HTMLElement, stats: RhythmStatistics) {
+		containerEl.createEl("h5", { text: "Paragraphs" });
+		const listEl = containerEl.createDiv({
+			cls: "musical-text-stats-paragraphs",
+		});
+		const colors = new Map(
+			stats.histogram.map(({ bucket }) => [bucket.className, bucket.color]),
+		);
+		const longest = Math.max(
+			1,
+			...stats.paragraphs.flatMap(({ paragraph }) =>
+				paragraph.sentences.map((sentence) => sentence.length),
+			),
+		);
+
+		stats.paragraphs.forEach(({ paragraph, mean }, index) => {
+			const rowEl = listEl.createDiv({
+				cls: "musical-text-stats-paragraph is-clickable",
+			});
+			rowEl.createDiv({
+				cls: "musical-text-stats-paragraph-label",
+				text: `¶ ${index + 1}`,
+			});
+			rowEl.createDiv({
+				cls: "musical-text-stats-paragraph-details",
+				text: `${paragraph.sentences.length} sentences · avg ${mean.toFixed(1)}`,
+			});
+
+			// A tiny bar per sentence shows the paragraph's shape at a glance.
+			const sparklineEl = rowEl.createDiv({
+				cls: "musical-text-stats-sparkline",
+			});
+			for (const sentence of paragraph.sentences) {
+				const barEl = sparklineEl.createDiv();
+				barEl.style.height = `${(sentence.length / longest) * 100}%`;
+				barEl.style.backgroundColor =
+					colors.get(sentence.className) ?? "";
+			}
+
+			const first = paragraph.sentences[0];
+			rowEl.addEventListener("click", () =>
+				this.jumpTo(first.from, first.to),
+			);
+		});
+	}
+
+	/** Selects the next sentence of a bucket after the last one visited */
+	private jumpToNextInBucket(
+		bucket: LengthBucket,
+		sentences: SentenceRange[],
+	) {
+		const next =
+			((this.bucketCursors.get(bucket.className) ?? -1) + 1) %
+			sentences.length;
+		this.bucketCursors.set(bucket.className, next);
+		this.jumpTo(sentences[next].from, sentences[next].to);
+	}
+
+	/** Focuses the note's editor and selects `from`-`to` */
+	private jumpTo(from: number, to: number) {
+		const cm = this.getEditorView();
+		if (!this.markdownView || !cm) return;
+
+		this.app.workspace.setActiveLeaf(this.markdownView.leaf, {
+			focus: true,
+		});
+		cm.dispatch({
+			selection: { anchor: from, head: to },
+			effects: EditorView.scrollIntoView(from, { y: "center" }),
+		});
+		cm.focus();
+	}
+
+	private getEditorView(): EditorView | null {
+		return this.markdownView
+			? this.plugin.getEditorView(this.markdownView.editor)
+			: null;
+	}
+}
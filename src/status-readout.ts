@@ -0,0 +1,259 @@
+/**
+ * Status bar readout of the sentence under the cursor
+ *
+ * The readout follows the focused editor whether or not it is highlighted.
+ * The sentence and its paragraph are found on every selection change; the
+ * note's statistics need the whole document, so they are recomputed after a
+ * pause in typing or in moving between editors.
+ */
+
+import { Menu, debounce } from "obsidian";
+import { EditorState, Text } from "@codemirror/state";
+import { EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import MusicalTextPlugin from "../main";
+import {
+	LengthBucket,
+	LengthMetric,
+	MusicalTextSettings,
+	RhythmStatistics,
+	SentenceRange,
+} from "./types";
+import {
+	findSentences,
+	formatBucketRange,
+	getLengthBuckets,
+	getMetricUnit,
+} from "./sentence-detection";
+import { collectProseBlocks } from "./markdown-structure";
+import { analyzeDocument, computeStatistics, mean } from "./rhythm-analysis";
+
+/** Pause after typing before the note is re-analyzed (ms) */
+const ANALYSIS_DELAY = 500;
+
+/** The sentence at the cursor and the paragraph it is in */
+interface CursorSentence {
+	sentences: SentenceRange[];
+	index: number;
+	bucket: LengthBucket | undefined;
+}
+
+/** Statistics of the note an editor showed when it was last analyzed */
+interface NoteStatistics {
+	view: EditorView;
+	doc: Text;
+	statistics: RhythmStatistics;
+}
+
+/**
+ * Keeps a status bar item showing the word count and bucket of the sentence
+ * at the cursor, the running average of its paragraph and the note's length
+ * variance. Clicking the item opens a menu with the full breakdown.
+ */
+export class StatusReadout {
+	private view: EditorView | null = null;
+	private cursor: CursorSentence | null = null;
+	private note: NoteStatistics | null = null;
+	private requestAnalysis = debounce(
+		() => {
+			this.analyzeNote();
+			this.render();
+		},
+		ANALYSIS_DELAY,
+		true,
+	);
+
+	constructor(
+		private plugin: MusicalTextPlugin,
+		private el: HTMLElement,
+	) {
+		el.addClass("musical-text-readout");
+		el.addEventListener("click", (event) => this.openMenu(event));
+		this.render();
+	}
+
+	/**
+	 * Reads the sentence at the cursor of an editor, or clears the readout
+	 * when no editor is active
+	 */
+	update(view: EditorView | null) {
+		this.view = view;
+		if (!view || !this.plugin.settings.showStatusReadout) {
+			this.cursor = null;
+			this.render();
+			return;
+		}
+
+		const settings = this.plugin.getEditorSettings(view);
+		this.cursor = findCursorSentence(view.state, settings);
+		if (this.note?.view !== view) {
+			// Another note's statistics would be misleading, so show none.
+			this.note = null;
+			this.requestAnalysis();
+		} else if (this.note.doc !== view.state.doc) {
+			// Show the last statistics until typing pauses.
+			this.requestAnalysis();
+		}
+		this.render();
+	}
+
+	/** Discards the note's statistics, e.g. after settings changed */
+	refresh() {
+		this.note = null;
+		this.update(this.view);
+	}
+
+	destroy() {
+		this.requestAnalysis.cancel();
+		this.el.remove();
+	}
+
+	private analyzeNote() {
+		const view = this.view;
+		if (!view) return;
+		const settings = this.plugin.getEditorSettings(view);
+		this.note = {
+			view,
+			doc: view.state.doc,
+			statistics: computeStatistics(
+				analyzeDocument(view.state, settings),
+				settings,
+			),
+		};
+	}
+
+	private render() {
+		const { cursor, note } = this;
+		const parts: string[] = [];
+		if (cursor) {
+			const sentence = cursor.sentences[cursor.index];
+			parts.push(pluralize(sentence.wordCount, "word"));
+			if (cursor.bucket) parts.push(cursor.bucket.name);
+			parts.push(`¶ avg ${getRunningMean(cursor).toFixed(1)}`);
+		}
+		if (note?.view === this.view && note.statistics.sentenceCount > 0) {
+			parts.push(`σ² ${note.statistics.variance.toFixed(1)}`);
+		}
+
+		this.el.setText(parts.join(" · "));
+		this.el.toggle(parts.length > 0);
+	}
+
+	/** Lists the sentence, paragraph and note figures in a menu */
+	private openMenu(event: MouseEvent) {
+		const view = this.view;
+		if (!view) return;
+		const settings = this.plugin.getEditorSettings(view);
+		const unit = getMetricUnit(settings.lengthMetric);
+		const menu = new Menu();
+		const addLabel = (title: string) =>
+			menu.addItem((item) => item.setTitle(title).setIsLabel(true));
+
+		const { cursor } = this;
+		if (cursor) {
+			const sentence = cursor.sentences[cursor.index];
+			const counts = [pluralize(sentence.wordCount, "word")];
+			if (settings.lengthMetric === LengthMetric.SYLLABLES) {
+				counts.push(pluralize(sentence.length, "syllable"));
+			}
+			counts.push(pluralize(sentence.to - sentence.from, "character"));
+			addLabel(
+				`Sentence ${cursor.index + 1} of ${cursor.sentences.length}`,
+			);
+			addLabel(counts.join(" · "));
+			if (cursor.bucket) {
+				const range = formatBucketRange(cursor.bucket);
+				addLabel(`${cursor.bucket.name} (${range} ${unit})`);
+			}
+			const runningMean = getRunningMean(cursor).toFixed(1);
+			const paragraphMean = mean(
+				cursor.sentences.map((s) => s.length),
+			).toFixed(1);
+			menu.addSeparator();
+			addLabel(`Paragraph so far: ${runningMean} ${unit} on average`);
+			addLabel(`Whole paragraph: ${paragraphMean} ${unit} on average`);
+			menu.addSeparator();
+		}
+
+		const note = this.note;
+		if (note?.view === view && note.statistics.sentenceCount > 0) {
+			const { statistics } = note;
+			const average = statistics.mean.toFixed(1);
+			const middle = statistics.median.toFixed(1);
+			const spread = statistics.standardDeviation.toFixed(1);
+			const lengthVariance = statistics.variance.toFixed(1);
+			addLabel(
+				`Note: ${pluralize(statistics.sentenceCount, "sentence")}`,
+			);
+			addLabel(`Mean ${average} · median ${middle} ${unit}`);
+			addLabel(
+				`Variance ${lengthVariance} · standard deviation ${spread}`,
+			);
+			menu.addSeparator();
+		}
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Open rhythm statistics")
+				.setIcon("bar-chart-2")
+				.onClick(() => this.plugin.activateStatsView()),
+		);
+		menu.showAtMouseEvent(event);
+	}
+}
+
+/**
+ * Finds the sentence at the main cursor, or the closest one before it in
+ * the same prose paragraph
+ */
+function findCursorSentence(
+	state: EditorState,
+	settings: MusicalTextSettings,
+): CursorSentence | null {
+	const head = state.selection.main.head;
+	const block = collectProseBlocks(state, head, head, settings).find(
+		({ from, text }) => from <= head && head <= from + text.length,
+	);
+	if (!block) return null;
+	const sentences = findSentences(block.text, settings, block.from);
+	if (sentences.length === 0) return null;
+
+	let index = sentences.findIndex((sentence) => sentence.to >= head);
+	if (index === -1) index = sentences.length - 1;
+	const bucket = getLengthBuckets(settings).find(
+		(b) => b.className === sentences[index].className,
+	);
+	return { sentences, index, bucket };
+}
+
+/** Mean length of the paragraph's sentences up to the one at the cursor */
+function getRunningMean(cursor: CursorSentence): number {
+	return mean(
+		cursor.sentences
+			.slice(0, cursor.index + 1)
+			.map((sentence) => sentence.length),
+	);
+}
+
+function pluralize(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Creates the editor extension that keeps the status bar readout in step
+ * with the cursor of the focused editor.
+ * @param plugin Reference to the plugin instance for accessing settings and state
+ */
+export function createStatusReadout(plugin: MusicalTextPlugin) {
+	return ViewPlugin.define(() => ({
+		update(update: ViewUpdate) {
+			if (
+				(update.selectionSet ||
+					update.docChanged ||
+					update.focusChanged) &&
+				update.view.hasFocus
+			) {
+				plugin.statusReadout?.update(update.view);
+			}
+		},
+	}));
+}
@@ -0,0 +1,118 @@
+/**
+ * Stress pattern view for poetry
+ *
+ * Shows the approximate stressed and unstressed syllables of every prose
+ * line at the end of the line, e.g. "˘ / ˘ /˘ / ˘ /". It works on lines
+ * rather than sentences, since verse is scanned line by line, and is toggled
+ * per editor independently of highlighting.
+ */
+
+import { Range } from "@codemirror/state";
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	PluginValue,
+	ViewPlugin,
+	ViewUpdate,
+	WidgetType,
+} from "@codemirror/view";
+import { syntaxTree } from "@codemirror/language";
+import MusicalTextPlugin from "../main";
+import { getStressPattern } from "./prosody";
+import { collectProseBlocks } from "./markdown-structure";
+import { refreshHighlightEffect } from "./highlight-extension";
+
+/** Muted stress marks shown after a line */
+class StressPatternWidget extends WidgetType {
+	constructor(private pattern: string) {
+		super();
+	}
+
+	eq(other: StressPatternWidget): boolean {
+		return other.pattern === this.pattern;
+	}
+
+	toDOM(): HTMLElement {
+		return createSpan({
+			cls: "musical-text-stress",
+			text: this.pattern,
+			attr: { "aria-hidden": "true" },
+		});
+	}
+}
+
+class StressPatternView implements PluginValue {
+	decorations: DecorationSet = Decoration.none;
+
+	constructor(
+		private view: EditorView,
+		private plugin: MusicalTextPlugin,
+	) {
+		this.decorations = this.build();
+	}
+
+	update(update: ViewUpdate) {
+		const refresh = update.transactions.some((tr) =>
+			tr.effects.some((effect) => effect.is(refreshHighlightEffect)),
+		);
+		if (
+			refresh ||
+			update.docChanged ||
+			update.viewportChanged ||
+			syntaxTree(update.state) !== syntaxTree(update.startState)
+		) {
+			this.decorations = this.build();
+		}
+	}
+
+	/** Adds a stress pattern after each visible line of prose */
+	private build(): DecorationSet {
+		if (!this.plugin.stressPatternMap.get(this.view)) {
+			return Decoration.none;
+		}
+
+		const settings = this.plugin.getEditorSettings(this.view);
+		const widgets: Range<Decoration>[] = [];
+		const seen = new Set<number>();
+		for (const { from, to } of this.view.visibleRanges) {
+			for (const block of collectProseBlocks(
+				this.view.state,
+				from,
+				to,
+				settings,
+			)) {
+				let lineStart = block.from;
+				for (const line of block.text.split("\n")) {
+					const lineEnd = lineStart + line.length;
+					const pattern = getStressPattern(
+						line,
+						settings.syllableExceptions,
+					);
+					if (pattern && !seen.has(lineEnd)) {
+						seen.add(lineEnd);
+						widgets.push(
+							Decoration.widget({
+								widget: new StressPatternWidget(pattern),
+								side: 1,
+							}).range(lineEnd),
+						);
+					}
+					lineStart = lineEnd + 1;
+				}
+			}
+		}
+		return Decoration.set(widgets, true);
+	}
+}
+
+/**
+ * Creates the editor extension that shows stress patterns in editors where
+ * the stress pattern view is toggled on.
+ * @param plugin Reference to the plugin instance for accessing settings and state
+ */
+export function createStressPatternView(plugin: MusicalTextPlugin) {
+	return ViewPlugin.define((view) => new StressPatternView(view, plugin), {
+		decorations: (value) => value.decorations,
+	});
+}
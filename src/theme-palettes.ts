@@ -0,0 +1,46 @@
+/**
+ * Separate palettes and marking styles for Obsidian's light and dark themes
+ */
+
+import { MusicalTextSettings } from "./types";
+import { getPalette } from "./palette-library";
+import { samplePalette } from "./color-utils";
+
+/** Whether Obsidian currently uses its dark base theme */
+export function isDarkTheme(): boolean {
+	return document.body.hasClass("theme-dark");
+}
+
+/**
+ * Returns the settings for the current theme: with theme palettes on, band
+ * colors come from the theme's palette and the theme's marking style, if
+ * set, replaces the general one.
+ * @param dark Whether the dark theme is active
+ */
+export function getThemeSettings(
+	settings: MusicalTextSettings,
+	dark: boolean,
+): MusicalTextSettings {
+	if (!settings.themePalettes) return settings;
+
+	const paletteKey = dark ? settings.darkPalette : settings.lightPalette;
+	const palette = getPalette(settings, paletteKey);
+	const markingStyle = dark
+		? settings.darkMarkingStyle
+		: settings.lightMarkingStyle;
+
+	const colors = palette
+		? samplePalette(palette.colors, settings.bands.length)
+		: null;
+	return {
+		...settings,
+		colorPalette: palette ? paletteKey : settings.colorPalette,
+		bands: colors
+			? settings.bands.map((band, index) => ({
+					...band,
+					color: colors[index],
+				}))
+			: settings.bands,
+		markingStyle: markingStyle ?? settings.markingStyle,
+	};
+}
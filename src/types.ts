@@ -2,6 +2,17 @@
  * Type definitions for the Musical Text plugin
  */
 
+/**
+ * Which part of a note is marked while drafting: everything, or only the
+ * text around the cursor
+ */
+export enum FocusScope {
+	DOCUMENT = "document",
+	PARAGRAPH = "paragraph",
+	SENTENCE = "sentence",
+	SELECTION = "selection",
+}
+
 /**
  * Enum for different sentence marking styles
  */
@@ -9,25 +20,214 @@ export enum SentenceMarkingStyle {
 	HIGHLIGHTING = "highlighting",
 	TEXT_COLOR = "textColor",
 	COLOR_UNDERLINING = "colorUnderlining",
+	WAVY_UNDERLINE = "wavyUnderline",
+	DOTTED_UNDERLINE = "dottedUnderline",
+	DASHED_UNDERLINE = "dashedUnderline",
+	GUTTER_BAR = "gutterBar",
+	OPACITY_FADING = "opacityFading",
+	FONT_WEIGHT = "fontWeight",
+}
+
+/**
+ * How sentence colors are chosen: one color per length band, or a
+ * continuous gradient by word count
+ */
+export enum ColorMode {
+	BANDS = "bands",
+	GRADIENT = "gradient",
+}
+
+/**
+ * Color space a gradient is interpolated in
+ */
+export enum ColorInterpolation {
+	HSL = "hsl",
+	OKLCH = "oklch",
+}
+
+/**
+ * WCAG contrast level generated text colors must meet
+ */
+export enum ContrastLevel {
+	OFF = "off",
+	AA = "aa",
+	AAA = "aaa",
+}
+
+/**
+ * How sentence length is measured
+ */
+export enum LengthMetric {
+	WORDS = "words",
+	SYLLABLES = "syllables",
+	CHARACTERS = "characters",
+}
+
+/**
+ * Enum for Markdown block types recognized when looking for prose
+ */
+export enum MarkdownBlockType {
+	CODE = "code",
+	FRONTMATTER = "frontmatter",
+	TABLE = "table",
+	MATH = "math",
+	HTML = "html",
+	HEADING = "heading",
+	LIST_ITEM = "listItem",
+	BLOCKQUOTE = "blockquote",
+	CALLOUT = "callout",
+}
+
+/**
+ * Enum for whether a quoted sentence and its surroundings count as one
+ * sentence or separate ones
+ */
+export enum QuotedSentenceMode {
+	JOINED = "joined",
+	SEPARATE = "separate",
+}
+
+/**
+ * Enum for how sentence and word boundaries are found
+ */
+export enum SegmentationMode {
+	/** Built-in rules tuned for English punctuation and abbreviations */
+	RULES = "rules",
+	/** The runtime's locale-aware `Intl.Segmenter` */
+	LOCALE = "locale",
+}
+
+/**
+ * Options controlling how text is split into sentences
+ */
+export interface SegmentationOptions {
+	segmentationMode: SegmentationMode;
+	/** BCP 47 language tag for locale-aware segmentation; empty for the app default */
+	locale: string;
+	/** Count each Chinese or Japanese character as one unit of length */
+	cjkCharacterLength: boolean;
+	abbreviations: string[];
+	/** `"Hi," she said.` as one sentence or two */
+	dialogueTagMode: QuotedSentenceMode;
+	/** `He said, "It's late. Go."` with the quoted sentences kept or split */
+	nestedQuoteMode: QuotedSentenceMode;
 }
 
 /**
  * Settings interface for the Musical Text plugin.
  * Defines color schemes and thresholds for sentence highlighting.
  */
-export interface MusicalTextSettings {
+export interface MusicalTextSettings extends SegmentationOptions {
 	colorPalette: string;
+	/** The user's own palettes, keyed by `custom:` ids */
+	customPalettes: Record<string, ColorPalette>;
+	/** Color bands from `lightPalette` or `darkPalette` to match the theme */
+	themePalettes: boolean;
+	lightPalette: string;
+	darkPalette: string;
+	/** Marking style for each theme, or null to use `markingStyle` */
+	lightMarkingStyle: SentenceMarkingStyle | null;
+	darkMarkingStyle: SentenceMarkingStyle | null;
 	markingStyle: SentenceMarkingStyle;
-	miniSentenceColor: string;
-	shortSentenceColor: string;
-	mediumSentenceColor: string;
-	longSentenceColor: string;
-	shortThreshold: number;
-	mediumThreshold: number;
-	longThreshold: number;
+	/** A second marking style drawn together with `markingStyle`, if any */
+	combinedMarkingStyle: SentenceMarkingStyle | null;
+	/** Sentence length bands, from shortest to longest */
+	bands: LengthBand[];
+	colorMode: ColorMode;
+	/** Contrast that generated text colors are adjusted to meet */
+	contrastLevel: ContrastLevel;
+	gradientInterpolation: ColorInterpolation;
+	/** Length at which the gradient reaches its last color */
+	gradientMaxLength: number;
+	lengthMetric: LengthMetric;
+	/** Syllable counts for words the syllable heuristic gets wrong */
+	syllableExceptions: Record<string, number>;
 	defaultHighlightingEnabled: boolean;
+	/** Folders, tags and globs of notes that open with highlighting on */
+	autoHighlightRules: string[];
+	/** Last editor highlighting state chosen for each note, by vault path */
+	fileHighlighting: Record<string, boolean>;
+	/** Part of the note marked in editors */
+	focusScope: FocusScope;
+	/** Sentences before and after the cursor's in the sentence scope */
+	focusNeighbours: number;
+	/** Fade the text outside the focus scope */
+	dimOutsideFocus: boolean;
+	defaultReadingHighlightingEnabled: boolean;
+	highlightPdfExport: boolean;
+	includeHeadings: boolean;
+	includeListItems: boolean;
+	includeBlockquotes: boolean;
+	includeCallouts: boolean;
 	showStatusBarItem?: boolean;
 	showRibbonIcon?: boolean;
+	/** Draw a bar per sentence beside the editor's scrollbar */
+	showMinimap: boolean;
+	/** Show word count and length details when hovering a sentence */
+	showHoverDetails: boolean;
+	/** Describe the sentence at the cursor in the status bar */
+	showStatusReadout: boolean;
+	/** Flag runs of consecutive sentences with similar lengths */
+	detectMonotony: boolean;
+	/** Fewest similar sentences in a row that count as a run */
+	monotonyRunLength: number;
+	/** Sentences within this much length of a run's first also count as similar */
+	monotonyTolerance: number;
+	benchmarkMode: boolean;
+}
+
+/**
+ * A named range of sentence lengths and the color it is marked with
+ */
+export interface LengthBand {
+	name: string;
+	/**
+	 * Longest sentence in the band by each length metric, or null for the
+	 * open-ended last band
+	 */
+	maxWords: number | null;
+	maxSyllables: number | null;
+	maxCharacters: number | null;
+	color: string;
+}
+
+/**
+ * A length bucket's colors and position, as given to a marking style
+ */
+export interface MarkedBucket {
+	/** Band color, or a `var()` reference to the sentence's gradient color */
+	color: string;
+	/** Text color that reads well on `color` */
+	textColor: string;
+	/** Position among the buckets, from 0 (shortest) to 1 (longest) */
+	level: number;
+}
+
+/**
+ * A way of marking sentences, generating CSS for any length bucket
+ */
+export interface MarkingStyleDefinition {
+	/** Name shown in dropdowns */
+	name: string;
+	/** What the band color paints, which decides how its contrast is checked */
+	colorRole: "background" | "text" | "mark" | null;
+	/** CSS declarations for the sentences of a bucket */
+	sentence?: (bucket: MarkedBucket) => string;
+	/**
+	 * CSS declarations for the editor lines, or rendered blocks, whose
+	 * longest sentence is in a bucket. Styles with this get line decorations.
+	 */
+	line?: (bucket: MarkedBucket) => string;
+}
+
+/**
+ * A parsed color with 0-255 channels and 0-1 alpha
+ */
+export interface RgbaColor {
+	r: number;
+	g: number;
+	b: number;
+	a: number;
 }
 
 /**
@@ -35,10 +235,8 @@ export interface MusicalTextSettings {
  */
 export interface ColorPalette {
 	name: string;
-	miniSentenceColor: string;
-	shortSentenceColor: string;
-	mediumSentenceColor: string;
-	longSentenceColor: string;
+	/** Colors from the shortest band to the longest, sampled to fit the bands */
+	colors: string[];
 }
 
 /**
@@ -48,3 +246,98 @@ export interface MarkdownListMarkerResult {
 	content: string;
 	markerLength: number;
 }
+
+/**
+ * A sentence length category, with its inclusive length range in the
+ * active length metric
+ */
+export interface LengthBucket {
+	className: string;
+	name: string;
+	color: string;
+	minLength: number;
+	/** Upper bound, or null for the open-ended longest bucket */
+	maxLength: number | null;
+}
+
+/**
+ * Offsets of a sentence within segmented text
+ */
+export interface SentenceSpan {
+	from: number;
+	to: number;
+}
+
+/**
+ * A sentence found in analyzed text, with its position and length class
+ */
+export interface SentenceRange {
+	from: number;
+	to: number;
+	wordCount: number;
+	/** Length in the active length metric, used for classification */
+	length: number;
+	className: string;
+}
+
+/**
+ * A paragraph of prose extracted from a Markdown document. Non-prose tokens are
+ * masked so that `text` offsets still line up with the document from `from`.
+ */
+export interface ProseBlock {
+	from: number;
+	text: string;
+}
+
+/**
+ * The sentences of one prose paragraph, with document offsets
+ */
+export interface ParagraphAnalysis {
+	from: number;
+	to: number;
+	sentences: SentenceRange[];
+}
+
+/**
+ * Consecutive sentences of a paragraph with similar lengths
+ */
+export interface MonotonyRun {
+	from: number;
+	to: number;
+	sentences: SentenceRange[];
+}
+
+/**
+ * Sentence length statistics for a note
+ */
+export interface RhythmStatistics {
+	sentenceCount: number;
+	mean: number;
+	median: number;
+	variance: number;
+	standardDeviation: number;
+	histogram: { bucket: LengthBucket; count: number }[];
+	paragraphs: { paragraph: ParagraphAnalysis; mean: number }[];
+}
+
+/**
+ * Sentence length statistics of one note in a rhythm report
+ */
+export interface NoteRhythmSummary {
+	path: string;
+	sentenceCount: number;
+	mean: number;
+	variance: number;
+	/** Share of the sentences in each length bucket, from 0 to 1 */
+	bucketShares: number[];
+	/** Percentage of the sentences that are part of a monotonous run */
+	monotonyScore: number;
+}
+
+/**
+ * A parsed auto-enable rule: a tag, a folder or a path glob
+ */
+export type HighlightRule =
+	| { kind: "tag"; tag: string }
+	| { kind: "folder"; folder: string }
+	| { kind: "glob"; regex: RegExp };